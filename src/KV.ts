@@ -1,7 +1,39 @@
-import { Context, Effect, Option, Schema } from 'effect';
-import { KVDeleteError, KVGetError, KVListError, KVPutError, type KVError } from './errors.js';
-import type { GetOptions, KVValue, ListOptions, ListResult, PutOptions } from './types.js';
-import type { TypedKV } from './schema.js';
+import { Chunk, Context, Effect, Option, Schema, Stream } from 'effect';
+import type { CachedOptions, SWROptions, SWRResult } from './cache.js';
+import type { UpdateOptions } from './optimistic.js';
+import type {
+  RecoveryOptions,
+  RecoveryResult,
+  Transaction,
+  TransactionOptions,
+} from './transaction.js';
+import {
+  KVDeleteError,
+  KVGetError,
+  KVListError,
+  KVPutError,
+  type KVCodecError,
+  type KVConflictError,
+  type KVDecodeError,
+  type KVError,
+} from './errors.js';
+import type {
+  BatchOptions,
+  ChunkedPutOptions,
+  GetOptions,
+  GetType,
+  GetValue,
+  KVValue,
+  ListAllOptions,
+  ListKey,
+  ListOptions,
+  ListResult,
+  PutManyOptions,
+  PutOptions,
+  TypedGetOptions,
+  ValueWithMetadata,
+} from './types.js';
+import type { TypedKV, TypedKVOptions } from './schema.js';
 import { makeTypedKV } from './schema.js';
 
 /**
@@ -10,14 +42,20 @@ import { makeTypedKV } from './schema.js';
 export interface KVService {
   /**
    * Retrieves a value from KV
+   * The value is read as text unless `options.type` asks for JSON, an ArrayBuffer or a stream.
    * @param key - The key to retrieve
    * @param options - Optional get configuration
    * @returns Effect that resolves to Option of the value (None if not found)
+   * @example
+   * ```typescript
+   * const text = yield* kv.get('key'); // Option<string>
+   * const bytes = yield* kv.get('key', { type: 'arrayBuffer' }); // Option<ArrayBuffer>
+   * ```
    */
-  readonly get: (
+  readonly get: <T extends GetType | undefined = undefined>(
     key: string,
-    options?: GetOptions
-  ) => Effect.Effect<Option.Option<string>, KVError>;
+    options?: TypedGetOptions<T>
+  ) => Effect.Effect<Option.Option<GetValue<T>>, KVError>;
 
   /**
    * Retrieves a value from KV as JSON
@@ -52,6 +90,63 @@ export interface KVService {
     options?: Omit<GetOptions, 'type'>
   ) => Effect.Effect<Option.Option<ReadableStream>, KVError>;
 
+  /**
+   * Retrieves a value from KV together with its metadata
+   * @param key - The key to retrieve
+   * @param options - Optional get configuration
+   * @returns Effect that resolves to Option of the value, metadata and cache status
+   */
+  readonly getWithMetadata: <M = unknown>(
+    key: string,
+    options?: Omit<GetOptions, 'type'>
+  ) => Effect.Effect<Option.Option<ValueWithMetadata<string, M>>, KVError>;
+
+  /**
+   * Retrieves a JSON value from KV together with its metadata
+   * @param key - The key to retrieve
+   * @param options - Optional get configuration
+   * @returns Effect that resolves to Option of the parsed value, metadata and cache status
+   */
+  readonly getJSONWithMetadata: <T = unknown, M = unknown>(
+    key: string,
+    options?: Omit<GetOptions, 'type'>
+  ) => Effect.Effect<Option.Option<ValueWithMetadata<T, M>>, KVError>;
+
+  /**
+   * Retrieves a value from KV as ArrayBuffer together with its metadata
+   * @param key - The key to retrieve
+   * @param options - Optional get configuration
+   * @returns Effect that resolves to Option of the ArrayBuffer, metadata and cache status
+   */
+  readonly getArrayBufferWithMetadata: <M = unknown>(
+    key: string,
+    options?: Omit<GetOptions, 'type'>
+  ) => Effect.Effect<Option.Option<ValueWithMetadata<ArrayBuffer, M>>, KVError>;
+
+  /**
+   * Retrieves a value from KV as ReadableStream together with its metadata
+   * @param key - The key to retrieve
+   * @param options - Optional get configuration
+   * @returns Effect that resolves to Option of the stream, metadata and cache status
+   */
+  readonly getStreamWithMetadata: <M = unknown>(
+    key: string,
+    options?: Omit<GetOptions, 'type'>
+  ) => Effect.Effect<Option.Option<ValueWithMetadata<ReadableStream, M>>, KVError>;
+
+  /**
+   * Retrieves a value as an Effect Stream of bytes
+   * The underlying reader is released when the stream ends, fails or is interrupted, so
+   * running only part of it (e.g. with Stream.take) cancels the rest of the download.
+   * @param key - The key to retrieve
+   * @param options - Optional get configuration
+   * @returns Effect that resolves to Option of the byte stream (None if not found)
+   */
+  readonly getByteStream: (
+    key: string,
+    options?: Omit<GetOptions, 'type'>
+  ) => Effect.Effect<Option.Option<Stream.Stream<Uint8Array, KVGetError>>, KVError>;
+
   /**
    * Stores a value in KV
    * @param key - The key to store
@@ -75,12 +170,147 @@ export interface KVService {
   ) => Effect.Effect<void, KVError>;
 
   /**
-   * Deletes a key from KV
+   * Stores a value of any size by splitting it across chunk keys (`key#<generation>:0`, ...)
+   * Each write uses a new generation of chunk keys. A manifest holding the generation, chunk
+   * sizes and a checksum is written under the key itself, after every chunk, so readers never
+   * observe a partially written value; the previous chunks are deleted after it. Every read
+   * method reassembles the value and delete removes the chunks.
+   * @param key - The key to store
+   * @param value - The value to store
+   * @param options - Optional chunk size and put configuration
+   * @returns Effect that resolves when complete
+   */
+  readonly putChunked: (
+    key: string,
+    value: string | ArrayBuffer | ReadableStream,
+    options?: ChunkedPutOptions
+  ) => Effect.Effect<void, KVError>;
+
+  /**
+   * Stores the bytes of an Effect Stream in KV
+   * The stream is consumed as the value is uploaded. If the stream fails, the put fails with
+   * the stream's error; if the put is interrupted, the stream is interrupted too and its
+   * finalizers run. Nothing is stored in either case.
+   * @param key - The key to store
+   * @param stream - The bytes to store
+   * @param options - Optional put configuration
+   * @returns Effect that resolves when complete
+   */
+  readonly putStream: <E, R>(
+    key: string,
+    stream: Stream.Stream<Uint8Array, E, R>,
+    options?: PutOptions
+  ) => Effect.Effect<void, E | KVError, R>;
+
+  /**
+   * Updates a text value from its current value, detecting lost updates
+   * A version token is stored in metadata and checked again right before writing and after
+   * writing; if another writer changed the key, it is retried from a fresh read. KV has no atomic
+   * operations and is eventually consistent, so this narrows but cannot rule out lost updates.
+   * Metadata is replaced by `options.metadata`, as with put.
+   * @param key - The key to update
+   * @param f - Computes the new value from the current one (None if missing); may run once
+   * per attempt
+   * @param options - Optional put configuration and retry schedule
+   * @returns Effect resolving to the value written, or failing with KVConflictError once
+   * retries are exhausted
+   * @example
+   * ```typescript
+   * const hits = yield* kv.update('hits', (current) =>
+   *   String(Number(Option.getOrElse(current, () => '0')) + 1)
+   * );
+   * ```
+   */
+  readonly update: (
+    key: string,
+    f: (current: Option.Option<string>) => string,
+    options?: UpdateOptions
+  ) => Effect.Effect<string, KVError | KVConflictError>;
+
+  /**
+   * Runs a multi-key transaction through a write-ahead journal
+   * Writes and deletes made through `tx` are buffered while the body runs; if it succeeds,
+   * a journal describing every mutation and the value it replaces is stored under a reserved
+   * prefix, the mutations are applied in order and the journal is deleted. A failed body
+   * writes nothing, a failed apply is rolled back, and a crash part-way leaves the journal
+   * for recoverTransactions. Other readers can observe the mutations part-applied, and
+   * concurrent transactions on the same keys are not isolated from each other.
+   * @param body - Reads and buffers mutations through the transaction
+   * @param options - Optional journal prefix
+   * @returns Effect resolving to the body's result once every mutation is applied
+   * @example
+   * ```typescript
+   * yield* kv.transaction((tx) =>
+   *   Effect.gen(function* () {
+   *     const todo = yield* tx.getJSON<Array<string>>('list:todo');
+   *     const done = yield* tx.getJSON<Array<string>>('list:done');
+   *     yield* tx.putJSON('list:todo', Option.getOrElse(todo, () => []).filter((id) => id !== 'a'));
+   *     yield* tx.putJSON('list:done', [...Option.getOrElse(done, () => []), 'a']);
+   *   })
+   * );
+   * ```
+   */
+  readonly transaction: <A, E, R>(
+    body: (tx: Transaction) => Effect.Effect<A, E, R>,
+    options?: TransactionOptions
+  ) => Effect.Effect<A, E | KVError, R>;
+
+  /**
+   * Finishes or undoes transactions whose journals were left behind, e.g. by a crash
+   * Journals younger than `options.olderThan` are skipped, as they may belong to
+   * transactions still being applied.
+   * @param options - Replay or roll back, minimum journal age and journal prefix
+   * @returns Effect resolving to the number of journals replayed and rolled back
+   */
+  readonly recoverTransactions: (
+    options?: RecoveryOptions
+  ) => Effect.Effect<RecoveryResult, KVError>;
+
+  /**
+   * Deletes a key from KV, together with the chunks of a value stored with putChunked
    * @param key - The key to delete
    * @returns Effect that resolves when complete
    */
   readonly delete: (key: string) => Effect.Effect<void, KVError>;
 
+  /**
+   * Retrieves many values at once
+   * Uses the multi-key form of get when the binding supports it, falling back to
+   * bounded parallel single-key reads otherwise
+   * @param keys - The keys to retrieve
+   * @param options - Optional get configuration and concurrency limit
+   * @returns Effect that resolves to a map of every requested key to Option of its value,
+   * or fails with KVBatchError listing the keys that could not be read
+   */
+  readonly getMany: (
+    keys: Iterable<string>,
+    options?: Omit<GetOptions, 'type'> & BatchOptions
+  ) => Effect.Effect<ReadonlyMap<string, Option.Option<string>>, KVError>;
+
+  /**
+   * Stores many values at once with bounded concurrency
+   * @param entries - Key/value pairs to store
+   * @param options - Optional put configuration applied to every entry and concurrency limit
+   * @returns Effect that resolves when complete, or fails with KVBatchError listing the
+   * keys that could not be written
+   */
+  readonly putMany: (
+    entries: Iterable<readonly [string, KVValue]>,
+    options?: PutManyOptions
+  ) => Effect.Effect<void, KVError>;
+
+  /**
+   * Deletes many keys at once with bounded concurrency
+   * @param keys - The keys to delete
+   * @param options - Optional concurrency limit
+   * @returns Effect that resolves when complete, or fails with KVBatchError listing the
+   * keys that could not be deleted
+   */
+  readonly deleteMany: (
+    keys: Iterable<string>,
+    options?: BatchOptions
+  ) => Effect.Effect<void, KVError>;
+
   /**
    * Lists keys in KV namespace
    * @param options - Optional list configuration
@@ -88,13 +318,68 @@ export interface KVService {
    */
   readonly list: (options?: ListOptions) => Effect.Effect<ListResult, KVError>;
 
+  /**
+   * Streams every key in the namespace, following list cursors until the listing is complete
+   * @param options - Optional prefix, page size and maximum number of keys
+   * @returns Stream of key entries across all pages
+   */
+  readonly listAll: (options?: ListAllOptions) => Stream.Stream<ListKey, KVError>;
+
+  /**
+   * Collects the names of every key under a prefix
+   * @param prefix - Optional prefix to filter keys
+   * @returns Effect that resolves to all matching key names
+   */
+  readonly keys: (prefix?: string) => Effect.Effect<Chunk.Chunk<string>, KVError>;
+
+  /**
+   * Creates a view of this namespace where every key is prefixed automatically
+   * Keys passed to the scoped service are relative to the prefix, and list results
+   * have the prefix stripped from their names
+   * @param prefix - Prefix prepended to every key (e.g. 'tenant:42:')
+   * @returns KVService scoped to the prefix
+   */
+  readonly scoped: (prefix: string) => KVService;
+
+  /**
+   * Returns the cached JSON value for a key, or runs the computation and caches its result
+   * Concurrent misses for the same key share a single computation, across scoped views of the
+   * namespace too.
+   * @param key - The key to cache under
+   * @param compute - Effect producing the value on a miss
+   * @param options - Optional expiration, cache TTL, metadata and failure caching
+   * @returns Effect resolving to the cached or computed value
+   */
+  readonly cached: <A, E, R, F extends E = never, I = never>(
+    key: string,
+    compute: Effect.Effect<A, E, R>,
+    options?: CachedOptions<F, I>
+  ) => Effect.Effect<A, E | KVError | KVDecodeError | KVCodecError, R>;
+
+  /**
+   * Returns the cached JSON value for a key, refreshing it in the background once stale
+   * Stale values are served until `freshFor + staleFor` has passed; misses are computed inline.
+   * @param key - The key to cache under
+   * @param compute - Effect producing the value on a miss or refresh
+   * @param options - Fresh and stale windows, cache TTL, metadata and waitUntil hook
+   * @returns Effect resolving to the value and whether it was fresh, stale or missing
+   */
+  readonly staleWhileRevalidate: <A, E, R>(
+    key: string,
+    compute: Effect.Effect<A, E, R>,
+    options: SWROptions
+  ) => Effect.Effect<SWRResult<A>, E | KVError | KVDecodeError | KVCodecError, R>;
+
   /**
    * Gets a value or fails if not found
    * @param key - The key to retrieve
    * @param options - Optional get configuration
    * @returns Effect that resolves to value or fails with KeyNotFoundError
    */
-  readonly getOrFail: (key: string, options?: GetOptions) => Effect.Effect<string, KVError>;
+  readonly getOrFail: <T extends GetType | undefined = undefined>(
+    key: string,
+    options?: TypedGetOptions<T>
+  ) => Effect.Effect<GetValue<T>, KVError>;
 
   /**
    * Gets a value with a default fallback
@@ -103,13 +388,40 @@ export interface KVService {
    * @param options - Optional get configuration
    * @returns Effect that resolves to value or default
    */
-  readonly getOrElse: (
+  readonly getOrElse: <T extends GetType | undefined = undefined>(
     key: string,
-    defaultValue: string,
-    options?: GetOptions
-  ) => Effect.Effect<string, KVError>;
+    defaultValue: NoInfer<GetValue<T>>,
+    options?: TypedGetOptions<T>
+  ) => Effect.Effect<GetValue<T>, KVError>;
 }
 
+/**
+ * A KV service tag that can also be called with a schema to obtain a TypedKV
+ * bound to the same namespace
+ */
+export type KVTag<Id extends string> = Context.Tag<Id, KVService> & {
+  <V>(schema: Schema.Schema<V>, options?: TypedKVOptions): Effect.Effect<TypedKV<V>, never, Id>;
+};
+
+/**
+ * Creates a callable KV tag for the given identifier
+ */
+const makeKVTag = <Id extends string>(id: Id): KVTag<Id> => {
+  const tag = Context.Tag(id)<Id, KVService>();
+
+  // Create callable function that delegates to makeTypedKV
+  const callable = <V>(
+    schema: Schema.Schema<V>,
+    options?: TypedKVOptions
+  ): Effect.Effect<TypedKV<V>, never, Id> => makeTypedKV(schema, tag, options);
+
+  // Copy all tag properties to the callable function
+  Object.setPrototypeOf(callable, Object.getPrototypeOf(tag));
+  Object.defineProperties(callable, Object.getOwnPropertyDescriptors(tag));
+
+  return callable as KVTag<Id>;
+};
+
 /**
  * Context tag for the KV Service with callable schema support
  * @example
@@ -124,19 +436,21 @@ export interface KVService {
  * const userKV = yield* KV(UserSchema)
  * yield* userKV.put('user:1', { id: 1, name: 'Alice' })
  * const user = yield* userKV.get('user:1') // Option<{ id: number, name: string }>
+ *
+ * // Additional namespaces get their own tags
+ * const Sessions = KV.Tag('Sessions')
+ * const sessions = yield* Sessions
+ * const sessionKV = yield* Sessions(SessionSchema)
  * ```
  */
-const KVTag = Context.Tag('effect-kv/KV')<'effect-kv/KV', KVService>();
-
-// Create callable function that delegates to makeTypedKV
-const KVCallable = <V>(
-  schema: Schema.Schema<V>
-): Effect.Effect<TypedKV<V>, never, 'effect-kv/KV'> => makeTypedKV(schema);
-
-// Copy all tag properties to the callable function
-Object.setPrototypeOf(KVCallable, Object.getPrototypeOf(KVTag));
-Object.defineProperties(KVCallable, Object.getOwnPropertyDescriptors(KVTag));
-
-export const KV = KVCallable as Context.Tag<'effect-kv/KV', KVService> & {
-  <V>(schema: Schema.Schema<V>): Effect.Effect<TypedKV<V>, never, 'effect-kv/KV'>;
-};
+export const KV: KVTag<'effect-kv/KV'> & {
+  /**
+   * Creates a distinct tag for an additional KV namespace
+   * The name is part of the tag's type, so services for different namespaces
+   * cannot be provided in place of each other
+   * @param name - Unique name of the namespace (e.g. 'Sessions')
+   */
+  readonly Tag: <const Name extends string>(name: Name) => KVTag<`effect-kv/KV/${Name}`>;
+} = Object.assign(makeKVTag('effect-kv/KV'), {
+  Tag: <const Name extends string>(name: Name) => makeKVTag(`effect-kv/KV/${name}` as const),
+});
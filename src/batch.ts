@@ -0,0 +1,47 @@
+import { Effect, Either } from 'effect';
+import { KVBatchError } from './errors.js';
+
+/**
+ * Default number of KV calls in flight for bulk operations
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 10;
+
+/**
+ * Error a single key of a bulk operation can fail with
+ */
+type KeyError = KVBatchError | KVBatchError['failures'][number]['error'];
+
+/**
+ * Runs an effect for every item with bounded concurrency, attempting all of them
+ * Failures are collected per key into a single KVBatchError rather than failing fast;
+ * a nested KVBatchError contributes its own per-key failures
+ * @param operation - The bulk operation being performed
+ * @param items - Items to process
+ * @param keyOf - Extracts the key an item refers to
+ * @param f - Effect to run for each item
+ * @param concurrency - Maximum number of effects running at once
+ */
+export const forEachKey = <I, A, E extends KeyError>(
+  operation: KVBatchError['operation'],
+  items: Iterable<I>,
+  keyOf: (item: I) => string,
+  f: (item: I) => Effect.Effect<A, E>,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY
+): Effect.Effect<Array<A>, KVBatchError> =>
+  Effect.gen(function* () {
+    const list = Array.from(items);
+    const results = yield* Effect.forEach(list, (item) => Effect.either(f(item)), {
+      concurrency,
+    });
+    const failures = results.flatMap((result, i) => {
+      if (Either.isRight(result)) {
+        return [];
+      }
+      const error: KeyError = result.left;
+      return error._tag === 'KVBatchError' ? error.failures : [{ key: keyOf(list[i]!), error }];
+    });
+    if (failures.length > 0) {
+      return yield* Effect.fail(new KVBatchError({ operation, failures }));
+    }
+    return results.flatMap((result) => (Either.isRight(result) ? [result.right] : []));
+  });
@@ -0,0 +1,350 @@
+import { Clock, Deferred, Duration, Effect, Fiber, FiberRef, Option, pipe, Schema } from 'effect';
+import { jsonCodec, readEncoded, writeEncoded } from './codec.js';
+import { KVDecodeError, KVEncodeError, type KVCodecError, type KVError } from './errors.js';
+import type { KVService } from './KV.js';
+import { checkMetadata } from './portable.js';
+import type { TypedStoreFormat } from './schema.js';
+import type { PutOptions } from './types.js';
+
+/**
+ * Options for caching failures of a read-through computation
+ */
+export interface CachedFailureOptions<F, I = F> {
+  /**
+   * Schema of the failures to cache; failures it does not match are not cached
+   */
+  readonly schema: Schema.Schema<F, I>;
+
+  /**
+   * Expiration TTL in seconds for cached failures (minimum 60)
+   */
+  readonly expirationTtl: number;
+}
+
+/**
+ * Options for read-through caching
+ */
+export interface CachedOptions<F = never, I = F> extends PutOptions {
+  /**
+   * Cache TTL in seconds applied when reading the cached value
+   */
+  readonly cacheTtl?: number;
+
+  /**
+   * Also cache failures of the computation for a short TTL
+   */
+  readonly failure?: CachedFailureOptions<F, I>;
+}
+
+/**
+ * Options for stale-while-revalidate caching
+ */
+export interface SWROptions {
+  /**
+   * How long a stored value is served as fresh
+   */
+  readonly freshFor: Duration.DurationInput;
+
+  /**
+   * How long after going stale a value may still be served while it is refreshed
+   * The key expires once this window has passed.
+   */
+  readonly staleFor: Duration.DurationInput;
+
+  /**
+   * Cache TTL in seconds applied when reading the cached value
+   */
+  readonly cacheTtl?: number;
+
+  /**
+   * Metadata to store with the value, which may not set `_cached` or `_freshUntil`
+   */
+  readonly metadata?: Record<string, unknown>;
+
+  /**
+   * Keeps the runtime alive until a background refresh completes (e.g. `ctx.waitUntil`)
+   */
+  readonly waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/**
+ * Whether a value was served fresh, served stale while being refreshed, or computed on a miss
+ */
+export type SWRStatus = 'fresh' | 'stale' | 'missing';
+
+/**
+ * A value returned by stale-while-revalidate together with its status
+ */
+export interface SWRResult<A> {
+  readonly value: A;
+  readonly status: SWRStatus;
+}
+
+/**
+ * Metadata key holding the time (milliseconds since epoch) until which a value is fresh
+ */
+const FRESH_UNTIL = '_freshUntil';
+
+/**
+ * Metadata marker stored with cached failures
+ */
+const FAILURE_MARKER = '_cached';
+
+/**
+ * Metadata keys the cache records about stored values, which callers may not set
+ */
+const CACHE_MARKERS = [FRESH_UNTIL, FAILURE_MARKER];
+
+/**
+ * Where the keys of a service live: the namespace they are ultimately stored in, and the
+ * prefix the service's scope adds to them
+ * @internal
+ */
+export interface KeyLocation {
+  readonly root: object;
+  readonly prefix: string;
+}
+
+const locations = new WeakMap<KVService, KeyLocation>();
+
+/**
+ * Records where the keys of a service live
+ * @internal
+ */
+export const setKeyLocation = (kv: KVService, location: KeyLocation): void => {
+  locations.set(kv, location);
+};
+
+/**
+ * Finds where the keys of a service live; services built elsewhere are their own root
+ * @internal
+ */
+export const keyLocationOf = (kv: KVService): KeyLocation =>
+  locations.get(kv) ?? { root: kv, prefix: '' };
+
+/**
+ * Whether the current fiber's reads and writes must reach the wrapped service instead of
+ * an in-memory cache in front of it
+ * @internal
+ */
+export const bypassCaches = FiberRef.unsafeMake(false);
+
+/**
+ * Runs an effect with in-memory caches bypassed
+ * Locks and optimistic updates check their writes by reading them back, which a cache
+ * would always confirm.
+ * @internal
+ */
+export const uncached = <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+  Effect.locally(effect, bypassCaches, true);
+
+/**
+ * Computations in flight per namespace, keyed by decode mode and full key, so concurrent
+ * misses share one call across every scoped view of the namespace
+ */
+const inflight = new WeakMap<object, Map<string, Deferred.Deferred<unknown, unknown>>>();
+
+/**
+ * Helper to identify how a format decodes stored values, so only readers that would
+ * produce the same result share a computation
+ */
+const decodeModeOf = <V, D>(format: TypedStoreFormat<V, D>): string =>
+  `${format.codec.name}:${JSON.stringify(format.metadata)}`;
+
+/**
+ * Runs an effect at most once at a time per namespace, full key and decode mode
+ * Callers arriving while it runs wait for the same result. The effect runs in a daemon
+ * fiber, so interrupting the caller that started it leaves the others waiting for it.
+ */
+const dedupe = <V, D, A, E, R>(
+  kv: KVService,
+  format: TypedStoreFormat<V, D>,
+  key: string,
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<A, E, R> =>
+  pipe(
+    Deferred.make<A, E>(),
+    Effect.flatMap((deferred) =>
+      Effect.suspend(() => {
+        const { root, prefix } = keyLocationOf(kv);
+        const id = `${decodeModeOf(format)}\u0000${prefix}${key}`;
+        const running =
+          inflight.get(root) ?? new Map<string, Deferred.Deferred<unknown, unknown>>();
+        inflight.set(root, running);
+        const existing = running.get(id) as Deferred.Deferred<A, E> | undefined;
+        if (existing !== undefined) {
+          return Effect.succeed(existing);
+        }
+        running.set(id, deferred as Deferred.Deferred<unknown, unknown>);
+        const run = Effect.onExit(effect, (exit) =>
+          Effect.zipRight(
+            Effect.sync(() => running.delete(id)),
+            Deferred.done(deferred, exit)
+          )
+        );
+        return Effect.as(Effect.forkDaemon(Effect.interruptible(run)), deferred);
+      })
+    ),
+    // Registering the computation and starting it cannot be separated by an interruption,
+    // which would leave waiters on a result that never comes
+    Effect.uninterruptible,
+    Effect.flatMap(Deferred.await)
+  );
+
+/**
+ * Returns the cached value for a key, or runs the computation and caches its result
+ * Cache writes are best effort: a failed write is logged and the computed value returned.
+ * @internal
+ */
+export const readThrough = <V, D, E, R, F extends E = never, I = never>(
+  kv: KVService,
+  format: TypedStoreFormat<V, D>,
+  key: string,
+  compute: Effect.Effect<V, E, R>,
+  options: CachedOptions<F, I> = {}
+): Effect.Effect<V, E | D | KVError | KVDecodeError | KVCodecError, R> => {
+  const { cacheTtl, failure, ...putOptions } = options;
+
+  const store = (value: V) =>
+    pipe(
+      format.encode(key, value),
+      Effect.flatMap((encoded) =>
+        writeEncoded(kv, format.codec, key, encoded, {
+          ...putOptions,
+          metadata: { ...putOptions.metadata, ...format.metadata },
+        })
+      ),
+      Effect.ignoreLogged
+    );
+
+  const storeFailure = (error: E) =>
+    failure === undefined || !Schema.is(failure.schema)(error)
+      ? Effect.void
+      : pipe(
+          Schema.encode(failure.schema)(error),
+          Effect.mapError((cause) => new KVEncodeError({ key, cause, value: error })),
+          Effect.flatMap((encoded) =>
+            writeEncoded(kv, format.codec, key, encoded, {
+              expirationTtl: failure.expirationTtl,
+              metadata: { [FAILURE_MARKER]: 'failure' },
+            })
+          ),
+          Effect.ignoreLogged
+        );
+
+  const computeAndStore = pipe(compute, Effect.tapError(storeFailure), Effect.tap(store));
+
+  const readOrCompute = dedupe(
+    kv,
+    format,
+    key,
+    Effect.gen(function* () {
+      const cached = yield* readEncoded(
+        kv,
+        format.codec,
+        key,
+        cacheTtl === undefined ? undefined : { cacheTtl }
+      );
+      if (Option.isNone(cached)) {
+        return yield* computeAndStore;
+      }
+      const { value, metadata } = cached.value;
+      if (metadata?.[FAILURE_MARKER] === 'failure') {
+        if (failure === undefined) {
+          return yield* computeAndStore;
+        }
+        const error = yield* Effect.mapError(
+          Schema.decodeUnknown(failure.schema)(value),
+          (cause) => new KVDecodeError({ key, cause, value })
+        );
+        return yield* Effect.fail(error);
+      }
+      return yield* format.decode(key, value, metadata);
+    })
+  );
+
+  return Effect.zipRight(checkMetadata(key, putOptions.metadata, CACHE_MARKERS), readOrCompute);
+};
+
+/**
+ * Serves cached values while fresh, serves stale values while refreshing them in the
+ * background, and computes the value on a miss
+ * Freshness is tracked with the Clock service, so it can be driven by TestClock.
+ * @internal
+ */
+export const staleWhileRevalidate = <V, D, E, R>(
+  kv: KVService,
+  format: TypedStoreFormat<V, D>,
+  key: string,
+  compute: Effect.Effect<V, E, R>,
+  options: SWROptions
+): Effect.Effect<SWRResult<V>, E | D | KVError | KVDecodeError | KVCodecError, R> => {
+  const freshFor = Duration.toMillis(options.freshFor);
+  const expirationTtl = Math.max(
+    60,
+    Math.ceil((freshFor + Duration.toMillis(options.staleFor)) / 1000)
+  );
+
+  const refresh = dedupe(
+    kv,
+    format,
+    key,
+    Effect.gen(function* () {
+      const value = yield* compute;
+      const now = yield* Clock.currentTimeMillis;
+      yield* pipe(
+        format.encode(key, value),
+        Effect.flatMap((encoded) =>
+          writeEncoded(kv, format.codec, key, encoded, {
+            expirationTtl,
+            metadata: { ...options.metadata, ...format.metadata, [FRESH_UNTIL]: now + freshFor },
+          })
+        ),
+        Effect.ignoreLogged
+      );
+      return value;
+    })
+  );
+
+  const revalidate = Effect.gen(function* () {
+    const fiber = yield* Effect.forkDaemon(Effect.ignoreLogged(refresh));
+    if (options.waitUntil !== undefined) {
+      options.waitUntil(Effect.runPromise(Fiber.await(fiber)));
+    }
+  });
+
+  return Effect.gen(function* () {
+    yield* checkMetadata(key, options.metadata, CACHE_MARKERS);
+    const cached = yield* readEncoded(
+      kv,
+      format.codec,
+      key,
+      options.cacheTtl === undefined ? undefined : { cacheTtl: options.cacheTtl }
+    );
+    if (Option.isNone(cached) || cached.value.metadata?.[FAILURE_MARKER] === 'failure') {
+      const value = yield* refresh;
+      return { value, status: 'missing' as const };
+    }
+    const { value, metadata } = cached.value;
+    const decoded = yield* format.decode(key, value, metadata);
+    const freshUntil = metadata?.[FRESH_UNTIL];
+    const now = yield* Clock.currentTimeMillis;
+    if (typeof freshUntil === 'number' && now < freshUntil) {
+      return { value: decoded, status: 'fresh' as const };
+    }
+    yield* revalidate;
+    return { value: decoded, status: 'stale' as const };
+  });
+};
+
+/**
+ * Format that stores values as plain JSON without validation
+ * @internal
+ */
+export const jsonFormat = <V>(): TypedStoreFormat<V, never> => ({
+  decode: (_key, value) => Effect.succeed(value as V),
+  encode: (_key, value) => Effect.succeed(value),
+  codec: jsonCodec,
+  metadata: {},
+  readsMetadata: false,
+});
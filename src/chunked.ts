@@ -0,0 +1,332 @@
+import { Clock, Effect, Stream } from 'effect';
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { compressValue } from './compression.js';
+import { KVGetError, KVPutError, KVValueTooLargeError, type KVError } from './errors.js';
+import type { ChunkedPutOptions, KVValue, ListKey, PutOptions } from './types.js';
+
+/**
+ * Maximum size of a stored value, in bytes (25 MiB)
+ * @internal
+ */
+export const MAX_VALUE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Maximum size of serialized metadata, in bytes
+ * @internal
+ */
+export const MAX_METADATA_BYTES = 1024;
+
+/**
+ * Maximum size of a UTF-8 encoded key, in bytes
+ * @internal
+ */
+export const MAX_KEY_BYTES = 512;
+
+/**
+ * Metadata key marking a manifest, holding the layout of its chunks
+ */
+const CHUNKS_MARKER = '_chunks';
+
+/**
+ * Where the chunks of a chunked value are stored, recorded in its manifest's metadata
+ * Every write stores its chunks under a new generation, so it never overwrites the chunks
+ * the current manifest points to.
+ * @internal
+ */
+export interface ChunkLayout {
+  /**
+   * Identifier of the write the chunks belong to
+   */
+  readonly generation: string;
+
+  /**
+   * Number of chunks
+   */
+  readonly count: number;
+}
+
+/**
+ * Manifest stored under the key of a chunked value
+ */
+interface ChunkManifest {
+  /**
+   * Size of each chunk in bytes, in order
+   */
+  readonly chunks: ReadonlyArray<number>;
+
+  /**
+   * Total size in bytes
+   */
+  readonly size: number;
+
+  /**
+   * CRC-32 of the whole value, as 8 hex digits
+   */
+  readonly checksum: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Name of the key holding a chunk of a chunked value
+ */
+const chunkKey = (key: string, generation: string, index: number): string =>
+  `${key}#${generation}:${index}`;
+
+/**
+ * Names of the keys holding the chunks of a chunked value
+ * @internal
+ */
+export const chunkKeysOf = (key: string, layout: ChunkLayout): Array<string> =>
+  Array.from({ length: layout.count }, (_, index) => chunkKey(key, layout.generation, index));
+
+/**
+ * Helper to read the chunk layout recorded in a manifest's metadata
+ * @internal
+ */
+export const chunkLayoutOf = (metadata: unknown): ChunkLayout | undefined => {
+  const layout =
+    typeof metadata === 'object' && metadata !== null
+      ? (metadata as Record<string, unknown>)[CHUNKS_MARKER]
+      : undefined;
+  if (typeof layout !== 'object' || layout === null) {
+    return undefined;
+  }
+  const { generation, count } = layout as Record<string, unknown>;
+  return typeof generation === 'string' && typeof count === 'number'
+    ? { generation, count }
+    : undefined;
+};
+
+/**
+ * Drops the chunks of large values from a key listing, leaving their manifests
+ * Chunks follow their manifest in list order, so each manifest's chunk keys are remembered
+ * until they are passed.
+ * @internal
+ */
+export const withoutChunkKeys = <E>(keys: Stream.Stream<ListKey, E>): Stream.Stream<ListKey, E> =>
+  Stream.suspend(() => {
+    const chunks = new Set<string>();
+    return Stream.filter(keys, ({ name, metadata }) => {
+      if (chunks.delete(name)) {
+        return false;
+      }
+      const layout = chunkLayoutOf(metadata);
+      if (layout !== undefined) {
+        chunkKeysOf(name, layout).forEach((chunk) => chunks.add(chunk));
+      }
+      return true;
+    });
+  });
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Helper to update a running CRC-32 (start from 0xffffffff) with more bytes
+ */
+const crc32 = (crc: number, bytes: Uint8Array): number => {
+  let c = crc;
+  for (const byte of bytes) {
+    c = CRC_TABLE[(c ^ byte) & 0xff]! ^ (c >>> 8);
+  }
+  return c >>> 0;
+};
+
+/**
+ * Helper to format a finished CRC-32
+ */
+const checksumOf = (crc: number): string =>
+  ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+
+/**
+ * Checks a write against the KV value and metadata size limits before it is attempted
+ * Streams are not checked since their size is not known up front.
+ * @internal
+ */
+export const checkSize = (
+  key: string,
+  value: KVValue,
+  metadata: Record<string, unknown> | undefined
+): Effect.Effect<void, KVValueTooLargeError> => {
+  const size =
+    typeof value === 'string'
+      ? encoder.encode(value).byteLength
+      : value instanceof ReadableStream
+        ? 0
+        : value.byteLength;
+  if (size > MAX_VALUE_BYTES) {
+    return Effect.fail(
+      new KVValueTooLargeError({ key, part: 'value', size, limit: MAX_VALUE_BYTES })
+    );
+  }
+  const metadataSize =
+    metadata === undefined ? 0 : encoder.encode(JSON.stringify(metadata)).byteLength;
+  if (metadataSize > MAX_METADATA_BYTES) {
+    return Effect.fail(
+      new KVValueTooLargeError({
+        key,
+        part: 'metadata',
+        size: metadataSize,
+        limit: MAX_METADATA_BYTES,
+      })
+    );
+  }
+  return Effect.void;
+};
+
+/**
+ * Reads the chunk layout of the value stored under a key (undefined if it is not chunked)
+ * @internal
+ */
+export const readChunkLayout = (
+  namespace: KVNamespace,
+  key: string
+): Effect.Effect<ChunkLayout | undefined, KVGetError> =>
+  Effect.tryPromise({
+    try: async () => {
+      if (typeof namespace.getWithMetadata !== 'function') {
+        return undefined;
+      }
+      const result = await namespace.getWithMetadata(key, 'stream');
+      await result.value?.cancel();
+      return chunkLayoutOf(result.metadata);
+    },
+    catch: (cause) => new KVGetError({ key, cause }),
+  });
+
+/**
+ * Streams a chunked value back from its manifest, verifying chunk sizes and the checksum
+ * The stream errors if a chunk is missing or the reassembled value does not match.
+ * @internal
+ */
+export const readChunks = (
+  namespace: KVNamespace,
+  key: string,
+  layout: ChunkLayout,
+  manifestText: string
+): ReadableStream<Uint8Array> => {
+  const manifest = JSON.parse(manifestText) as ChunkManifest;
+  let index = 0;
+  let crc = 0xffffffff;
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (index === manifest.chunks.length) {
+        if (checksumOf(crc) === manifest.checksum) {
+          controller.close();
+        } else {
+          controller.error(new Error(`Checksum mismatch for chunked value "${key}"`));
+        }
+        return;
+      }
+      const chunk = await namespace.get(chunkKey(key, layout.generation, index), 'arrayBuffer');
+      if (chunk === null || chunk.byteLength !== manifest.chunks[index]) {
+        controller.error(new Error(`Chunk ${index} of "${key}" is missing or incomplete`));
+        return;
+      }
+      const bytes = new Uint8Array(chunk);
+      crc = crc32(crc, bytes);
+      index++;
+      controller.enqueue(bytes);
+    },
+  });
+};
+
+/**
+ * Splits a value across chunk keys and then writes its manifest under the key itself
+ * The chunks are written under a new generation and the manifest last, so readers see
+ * either the previous value or the new one complete. The previous value's chunks are
+ * removed once the new manifest is in place.
+ * @param put - Writes a single key
+ * @param del - Deletes a single key
+ * @param key - The key to store the value under
+ * @param value - The value to store
+ * @param previous - Chunk layout of the value currently stored under the key, if chunked
+ * @param options - Chunk size, expiration, metadata and compression
+ * @internal
+ */
+export const writeChunked = (
+  put: (key: string, value: KVValue, options?: PutOptions) => Effect.Effect<void, KVError>,
+  del: (key: string) => Effect.Effect<void, KVError>,
+  key: string,
+  value: string | ArrayBuffer | ReadableStream,
+  previous: ChunkLayout | undefined,
+  options: ChunkedPutOptions = {}
+): Effect.Effect<void, KVError> =>
+  Effect.gen(function* () {
+    const { chunkSize = MAX_VALUE_BYTES } = options;
+    // One absolute expiration for every chunk and the manifest, so no chunk outlives it or
+    // expires before it
+    const now = Math.floor((yield* Clock.currentTimeMillis) / 1000);
+    const expiration =
+      options.expiration ??
+      (options.expirationTtl === undefined ? undefined : now + options.expirationTtl);
+    const source =
+      value instanceof ReadableStream
+        ? value
+        : new Blob([typeof value === 'string' ? encoder.encode(value) : value]).stream();
+    // Streams are always compressed when requested, so the manifest records the format
+    const [stored, storedOptions] = yield* Effect.tryPromise({
+      try: () => compressValue(source, options),
+      catch: (cause) => new KVPutError({ key, cause }),
+    });
+    const reader = (stored as ReadableStream<Uint8Array>).getReader();
+
+    const generation = crypto.randomUUID().slice(0, 8);
+    const sizes: Array<number> = [];
+    let crc = 0xffffffff;
+    let pending = new Uint8Array(Math.min(chunkSize, MAX_VALUE_BYTES));
+    let filled = 0;
+    const flush = Effect.suspend(() => {
+      const chunk = pending.slice(0, filled).buffer;
+      sizes.push(filled);
+      filled = 0;
+      return put(chunkKey(key, generation, sizes.length - 1), chunk, { expiration });
+    });
+
+    for (;;) {
+      const { done, value: bytes } = yield* Effect.tryPromise({
+        try: () => reader.read(),
+        catch: (cause) => new KVPutError({ key, cause }),
+      });
+      if (done) {
+        break;
+      }
+      crc = crc32(crc, bytes);
+      let offset = 0;
+      while (offset < bytes.byteLength) {
+        const take = Math.min(pending.byteLength - filled, bytes.byteLength - offset);
+        pending.set(bytes.subarray(offset, offset + take), filled);
+        filled += take;
+        offset += take;
+        if (filled === pending.byteLength) {
+          yield* flush;
+          pending = new Uint8Array(pending.byteLength);
+        }
+      }
+    }
+    if (filled > 0 || sizes.length === 0) {
+      yield* flush;
+    }
+
+    const manifest: ChunkManifest = {
+      chunks: sizes,
+      size: sizes.reduce((total, size) => total + size, 0),
+      checksum: checksumOf(crc),
+    };
+    yield* put(key, JSON.stringify(manifest), {
+      expiration,
+      metadata: {
+        ...storedOptions?.metadata,
+        [CHUNKS_MARKER]: { generation, count: sizes.length },
+      },
+    });
+    if (previous !== undefined) {
+      yield* Effect.forEach(chunkKeysOf(key, previous), del, { discard: true });
+    }
+  });
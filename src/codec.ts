@@ -0,0 +1,201 @@
+import { Effect, Option, ParseResult, pipe, Schema } from 'effect';
+import { KVCodecError, KVDecodeError, KVPutError, type KVError } from './errors.js';
+import type { KVService } from './KV.js';
+import { decodeMessagePack, encodeMessagePack } from './msgpack.js';
+import type { GetOptions, PutOptions, ValueWithMetadata } from './types.js';
+
+/**
+ * Serializes the schema-encoded values of a typed store
+ */
+export interface Codec {
+  /**
+   * Name recorded in the metadata of values written with the codec
+   */
+  readonly name: string;
+
+  /**
+   * Serializes a value; may throw for values the codec cannot represent
+   */
+  readonly encode: (value: unknown) => string | Uint8Array;
+
+  /**
+   * Deserializes stored bytes; may throw for malformed input
+   */
+  readonly decode: (bytes: Uint8Array) => unknown;
+}
+
+/**
+ * Metadata key recording the codec a value was written with
+ */
+const CODEC_MARKER = '_codec';
+
+const decoder = new TextDecoder();
+
+/**
+ * Stores values as JSON text (the default)
+ * Values are written exactly as putJSON writes them, without a codec marker, so stores that
+ * switch codecs can still recognise values written before codecs existed.
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  encode: (value) => JSON.stringify(value),
+  decode: (bytes) => JSON.parse(decoder.decode(bytes)) as unknown,
+};
+
+/**
+ * Stores values as MessagePack
+ * Binary data is stored as raw bytes instead of base64, so use schemas whose encoded side
+ * keeps Uint8Array, bigint and Date values, such as Schema.Uint8ArrayFromSelf,
+ * Schema.BigIntFromSelf and Schema.DateFromSelf. Numbers and bigints stay distinct: 64-bit
+ * integers always decode to bigints.
+ */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  encode: encodeMessagePack,
+  decode: decodeMessagePack,
+};
+
+/**
+ * Stores Uint8Array values as they are, for schemas whose encoded side is a Uint8Array
+ */
+export const bytesCodec: Codec = {
+  name: 'bytes',
+  encode: (value) => {
+    if (!(value instanceof Uint8Array)) {
+      throw new TypeError('The bytes codec only stores Uint8Array values');
+    }
+    return value;
+  },
+  decode: (bytes) => bytes,
+};
+
+/**
+ * Helper to check whether a codec stores values as plain JSON
+ * Only jsonCodec itself does; a custom codec that happens to be named "json" still
+ * serializes values with its own encode and decode.
+ * @internal
+ */
+export const isJSONCodec = (codec: Codec): boolean => codec === jsonCodec;
+
+/**
+ * Helper to fail when a value was written with a different codec
+ * Values without a codec marker were written as JSON.
+ */
+const checkCodec = (key: string, codec: Codec, metadata: unknown) => {
+  const marker =
+    typeof metadata === 'object' && metadata !== null
+      ? (metadata as Record<string, unknown>)[CODEC_MARKER]
+      : undefined;
+  const found = typeof marker === 'string' ? marker : jsonCodec.name;
+  return found === codec.name
+    ? Effect.void
+    : Effect.fail(new KVCodecError({ key, expected: codec.name, found }));
+};
+
+/**
+ * Deserializes a stored value, JSON text or bytes in the codec's format
+ * Malformed values fail with KVDecodeError, like values that do not match their schema.
+ * @internal
+ */
+export const deserialize = (
+  key: string,
+  codec: Codec,
+  value: string | ArrayBuffer
+): Effect.Effect<unknown, KVDecodeError> =>
+  typeof value === 'string'
+    ? Effect.mapError(
+        Schema.decodeUnknown(Schema.parseJson())(value),
+        (cause) => new KVDecodeError({ key, cause, value })
+      )
+    : Effect.try({
+        try: () => codec.decode(new Uint8Array(value)),
+        catch: (cause) =>
+          new KVDecodeError({
+            key,
+            value,
+            cause: new ParseResult.ParseError({
+              issue: new ParseResult.Type(
+                Schema.Uint8ArrayFromSelf.ast,
+                value,
+                `Malformed ${codec.name} value: ${cause instanceof Error ? cause.message : String(cause)}`
+              ),
+            }),
+          }),
+      });
+
+/**
+ * Reads a value written with a codec, together with its metadata
+ * Fails with KVCodecError if the value was written with another codec.
+ * @internal
+ */
+export const readEncoded = (
+  kv: KVService,
+  codec: Codec,
+  key: string,
+  options?: Omit<GetOptions, 'type'>
+): Effect.Effect<
+  Option.Option<ValueWithMetadata<unknown, Record<string, unknown> | null>>,
+  KVError | KVDecodeError | KVCodecError
+> => {
+  // JSON values are read as text, so the codec is checked before they are parsed
+  const read = isJSONCodec(codec)
+    ? kv.getWithMetadata<Record<string, unknown>>(key, options)
+    : kv.getArrayBufferWithMetadata<Record<string, unknown>>(key, options);
+  return pipe(
+    read as Effect.Effect<
+      Option.Option<ValueWithMetadata<string | ArrayBuffer, Record<string, unknown>>>,
+      KVError
+    >,
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.succeed(Option.none()),
+        onSome: ({ value, metadata, cacheStatus }) =>
+          pipe(
+            checkCodec(key, codec, metadata),
+            Effect.zipRight(deserialize(key, codec, value)),
+            Effect.map((decoded) => Option.some({ value: decoded, metadata, cacheStatus }))
+          ),
+      })
+    )
+  );
+};
+
+/**
+ * Helper to drop a codec marker from caller metadata, since JSON values are recognised by
+ * carrying none
+ */
+const withoutCodecMarker = (
+  metadata: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined => {
+  if (metadata === undefined || !(CODEC_MARKER in metadata)) {
+    return metadata;
+  }
+  const { [CODEC_MARKER]: _codec, ...rest } = metadata;
+  return rest;
+};
+
+/**
+ * Writes a value with a codec, recording the codec in its metadata
+ * @internal
+ */
+export const writeEncoded = (
+  kv: KVService,
+  codec: Codec,
+  key: string,
+  value: unknown,
+  options?: PutOptions
+): Effect.Effect<void, KVError> =>
+  isJSONCodec(codec)
+    ? kv.putJSON(key, value, { ...options, metadata: withoutCodecMarker(options?.metadata) })
+    : pipe(
+        Effect.try({
+          try: () => codec.encode(value),
+          catch: (cause) => new KVPutError({ key, cause }),
+        }),
+        Effect.flatMap((encoded) =>
+          kv.put(key, typeof encoded === 'string' ? encoded : encoded.slice().buffer, {
+            ...options,
+            metadata: { ...options?.metadata, [CODEC_MARKER]: codec.name },
+          })
+        )
+      );
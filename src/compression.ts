@@ -0,0 +1,91 @@
+import type { CompressionFormat, CompressionOptions, KVValue, PutOptions } from './types.js';
+
+/**
+ * Metadata key marking a value as compressed, holding its compression format
+ */
+const COMPRESSION_MARKER = '_compression';
+
+const DEFAULT_THRESHOLD = 1024;
+
+/**
+ * Helper to read the compression format recorded in a value's metadata
+ * @internal
+ */
+export const compressionOf = (metadata: unknown): CompressionFormat | undefined => {
+  const format =
+    typeof metadata === 'object' && metadata !== null
+      ? (metadata as Record<string, unknown>)[COMPRESSION_MARKER]
+      : undefined;
+  return format === 'gzip' || format === 'deflate' ? format : undefined;
+};
+
+/**
+ * Helper to collect a stream into an ArrayBuffer
+ */
+const collect = (stream: ReadableStream): Promise<ArrayBuffer> =>
+  new Response(stream).arrayBuffer();
+
+/**
+ * Helper to turn bytes into a stream
+ */
+const streamOf = (bytes: ArrayBuffer | ArrayBufferView): ReadableStream =>
+  new Blob([bytes as ArrayBuffer]).stream();
+
+/**
+ * Compresses a value when requested and worthwhile, recording the format in its metadata
+ * Values below the threshold, or that do not shrink, are stored as they are.
+ * @internal
+ */
+export const compressValue = async (
+  value: KVValue,
+  options?: PutOptions
+): Promise<readonly [KVValue, PutOptions | undefined]> => {
+  if (options?.compression === undefined) {
+    return [value, options];
+  }
+  const { compression, ...rest } = options;
+  const { format = 'gzip', threshold = DEFAULT_THRESHOLD }: CompressionOptions =
+    typeof compression === 'string' ? { format: compression } : compression;
+  const marked = { ...rest, metadata: { ...rest.metadata, [COMPRESSION_MARKER]: format } };
+
+  if (value instanceof ReadableStream) {
+    return [value.pipeThrough(new CompressionStream(format)), marked];
+  }
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  if (bytes.byteLength < threshold) {
+    return [value, rest];
+  }
+  const compressed = await collect(streamOf(bytes).pipeThrough(new CompressionStream(format)));
+  return compressed.byteLength < bytes.byteLength ? [compressed, marked] : [value, rest];
+};
+
+/**
+ * Converts a stored value read as an ArrayBuffer or stream into the requested type,
+ * decompressing it first when it was stored compressed
+ * @internal
+ */
+export const decodeStoredValue = async (
+  stored: ArrayBuffer | ReadableStream,
+  type: 'text' | 'json' | 'arrayBuffer' | 'stream',
+  format: CompressionFormat | undefined
+): Promise<unknown> => {
+  if (type === 'stream') {
+    const stream = stored instanceof ReadableStream ? stored : streamOf(stored);
+    return format === undefined ? stream : stream.pipeThrough(new DecompressionStream(format));
+  }
+  const bytes =
+    format === undefined
+      ? stored instanceof ReadableStream
+        ? await collect(stored)
+        : stored
+      : await collect(
+          (stored instanceof ReadableStream ? stored : streamOf(stored)).pipeThrough(
+            new DecompressionStream(format)
+          )
+        );
+  if (type === 'arrayBuffer') {
+    return bytes;
+  }
+  const text = new TextDecoder().decode(bytes);
+  return type === 'json' ? (JSON.parse(text) as unknown) : text;
+};
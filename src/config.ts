@@ -0,0 +1,128 @@
+import { Context, Duration, Effect, Layer, Schedule } from 'effect';
+import { KVTimeoutError, type KVBatchError, type KVError } from './errors.js';
+import type { KeyRedaction } from './telemetry.js';
+
+/**
+ * Name of a primitive operation performed against the KV binding
+ */
+export type KVOperation = 'get' | 'put' | 'delete' | 'list';
+
+/**
+ * Retry, timeout and tracing policy applied to every call made to the KV binding
+ */
+export interface KVConfigOptions {
+  /**
+   * Schedule used to retry failed calls whose cause is classified as retryable
+   * The schedule receives the failing KVError as input. Defaults to no retries.
+   */
+  readonly retry?: Schedule.Schedule<unknown, KVError>;
+
+  /**
+   * Maximum duration of a single attempt. Attempts that take longer fail with
+   * KVTimeoutError. Defaults to no timeout.
+   */
+  readonly timeout?: Duration.DurationInput;
+
+  /**
+   * Decides whether a failure may be retried. Receives the underlying cause of the
+   * failure, or the KVTimeoutError itself when an attempt timed out.
+   * Defaults to isTransientKVFailure.
+   */
+  readonly isRetryable?: (cause: unknown) => boolean;
+
+  /**
+   * How keys are recorded on tracing spans. Use `{ hmac: secret }` or 'drop' when keys
+   * contain personal data; 'hash' digests can be matched by hashing guessed keys. Defaults
+   * to 'keep'.
+   */
+  readonly traceKeys?: KeyRedaction;
+}
+
+/**
+ * Classifies failures reported by Cloudflare KV under load as transient:
+ * rate limiting (429, "too many requests"), 5xx responses, network errors and timeouts
+ * Status codes are only recognised where the runtime reports them, at the start of
+ * "KV <OPERATION> failed: <status>" messages, since other numbers in a message are not statuses.
+ * @param cause - The underlying cause of a failed KV call
+ * @returns true if the call may succeed when retried
+ */
+export const isTransientKVFailure = (cause: unknown): boolean => {
+  if (cause instanceof KVTimeoutError) {
+    return true;
+  }
+  const message = cause instanceof Error ? cause.message : String(cause);
+  return (
+    /^KV \w+ failed: (429|5\d\d)\b/.test(message) ||
+    /too many requests|network|timed? ?out|unavailable/i.test(message)
+  );
+};
+
+/**
+ * Context reference holding the retry and timeout policy used by KV layers
+ * The policy is read when a KV layer is built; without it calls are attempted once
+ * with no timeout.
+ * @example
+ * ```typescript
+ * const layer = layerFromNamespace(env.KV).pipe(
+ *   Layer.provide(
+ *     layerConfig({
+ *       retry: Schedule.exponential('50 millis').pipe(Schedule.intersect(Schedule.recurs(3))),
+ *       timeout: '2 seconds',
+ *     })
+ *   )
+ * )
+ * ```
+ */
+export class KVConfig extends Context.Reference<KVConfig>()('effect-kv/KVConfig', {
+  defaultValue: (): KVConfigOptions => ({}),
+}) {}
+
+/**
+ * Creates a Layer providing the KV retry and timeout policy
+ * @param options - Retry schedule, per-attempt timeout and retry classifier
+ */
+export const layerConfig = (options: KVConfigOptions): Layer.Layer<never> =>
+  Layer.succeed(KVConfig, options);
+
+/**
+ * Helper to find what the retry classifier inspects: timeouts and missing keys themselves,
+ * the cause shared by every key of a bulk call that failed as a whole, or the error's cause
+ */
+const retryCauseOf = (error: KVError | KVBatchError['failures'][number]['error']): unknown =>
+  error._tag === 'KVTimeoutError' || error._tag === 'KeyNotFoundError'
+    ? error
+    : error._tag === 'KVBatchError'
+      ? error.failures[0] === undefined
+        ? undefined
+        : retryCauseOf(error.failures[0].error)
+      : 'cause' in error
+        ? error.cause
+        : undefined;
+
+/**
+ * Applies the configured timeout and retry policy to a single KV call
+ * @param config - The policy to apply
+ * @param operation - The operation being performed
+ * @param key - The key involved, if any
+ * @param retryable - Whether the call may be repeated at all (false for consumed streams)
+ */
+export const withPolicy =
+  (config: KVConfigOptions, operation: KVOperation, key?: string, retryable = true) =>
+  <A, E extends KVError>(effect: Effect.Effect<A, E>): Effect.Effect<A, E | KVTimeoutError> => {
+    const { retry, timeout, isRetryable = isTransientKVFailure } = config;
+    const attempt =
+      timeout === undefined
+        ? effect
+        : Effect.timeoutFail(effect, {
+            duration: timeout,
+            onTimeout: () =>
+              new KVTimeoutError({ operation, key, timeout: Duration.decode(timeout) }),
+          });
+    if (retry === undefined || !retryable) {
+      return attempt;
+    }
+    return Effect.retry(attempt, {
+      schedule: retry,
+      while: (error: KVError) => isRetryable(retryCauseOf(error)),
+    });
+  };
@@ -0,0 +1,355 @@
+import { Context, Effect, Layer, Option, pipe } from 'effect';
+import { forEachKey } from './batch.js';
+import { KVDecryptError, KVGetError, KVPutError, type KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { checkMetadata } from './portable.js';
+import { deriveKVService } from './service.js';
+import type {
+  BatchOptions,
+  ChunkedPutOptions,
+  GetOptions,
+  GetType,
+  GetValue,
+  GetValueTypes,
+  KVValue,
+  PutOptions,
+  TypedGetOptions,
+  ValueWithMetadata,
+} from './types.js';
+
+/**
+ * An AES-GCM key together with the id recorded alongside values it encrypts
+ */
+export interface KVEncryptionKey {
+  readonly id: string;
+  readonly key: CryptoKey;
+}
+
+/**
+ * Supplies the keys used to encrypt and decrypt values
+ */
+export interface KVKeyringService {
+  /**
+   * The key new values are encrypted with
+   */
+  readonly current: Effect.Effect<KVEncryptionKey>;
+
+  /**
+   * Looks up a key by id, including retired keys still needed to read older values
+   */
+  readonly get: (id: string) => Effect.Effect<Option.Option<CryptoKey>>;
+}
+
+/**
+ * Context tag for the keyring used by encrypted KV services
+ */
+export class KVKeyring extends Context.Tag('effect-kv/KVKeyring')<KVKeyring, KVKeyringService>() {}
+
+/**
+ * Options for encrypted KV services
+ */
+export interface EncryptionOptions {
+  /**
+   * Return values stored without encryption metadata as they are, instead of failing with
+   * KVDecryptError. Useful while migrating existing plaintext keys. Defaults to false.
+   */
+  readonly allowPlaintext?: boolean;
+}
+
+/**
+ * Metadata keys holding the id of the encrypting key and the base64 IV
+ */
+const KEY_ID = '_keyId';
+const IV = '_iv';
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to encode bytes as base64
+ */
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+/**
+ * Helper to decode base64 into bytes
+ */
+const fromBase64 = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * Helper to split encryption fields from the rest of a value's metadata
+ */
+const splitMetadata = (metadata: unknown) => {
+  if (typeof metadata !== 'object' || metadata === null) {
+    return { keyId: undefined, iv: undefined, rest: metadata };
+  }
+  const { [KEY_ID]: keyId, [IV]: iv, ...rest } = metadata as Record<string, unknown>;
+  return {
+    keyId: typeof keyId === 'string' ? keyId : undefined,
+    iv: typeof iv === 'string' ? iv : undefined,
+    rest: Object.keys(rest).length === 0 ? null : rest,
+  };
+};
+
+/**
+ * Wraps a KVService so values are encrypted with AES-GCM before they are stored
+ * Each value is encrypted with the keyring's current key and a random IV, both recorded in
+ * metadata; the key name is bound as additional data so values cannot be swapped between
+ * keys. Reads look the key up by id, so values written before a rotation stay readable.
+ * Encrypted values are opaque to the compression option, which is ignored.
+ * @param kv - The service to wrap
+ * @param keyring - Keys to encrypt and decrypt with
+ * @param options - Optional plaintext fallback
+ * @returns KVService that encrypts on write and decrypts on read
+ */
+export const withEncryption = (
+  kv: KVService,
+  keyring: KVKeyringService,
+  options: EncryptionOptions = {}
+): KVService => {
+  const decorateAt = (inner: KVService, prefix: string): KVService => {
+    const encrypt = (key: string, value: KVValue) =>
+      Effect.gen(function* () {
+        const { id, key: cryptoKey } = yield* keyring.current;
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = yield* Effect.tryPromise({
+          try: async () => {
+            const plaintext =
+              typeof value === 'string'
+                ? encoder.encode(value)
+                : value instanceof ReadableStream
+                  ? await new Response(value).arrayBuffer()
+                  : value;
+            return crypto.subtle.encrypt(
+              { name: 'AES-GCM', iv, additionalData: encoder.encode(prefix + key) },
+              cryptoKey,
+              plaintext
+            );
+          },
+          catch: (cause) => new KVPutError({ key, cause }),
+        });
+        return { ciphertext, metadata: { [KEY_ID]: id, [IV]: toBase64(iv) } };
+      });
+
+    const decrypt = (key: string, ciphertext: ArrayBuffer, keyId: string, iv: string) =>
+      Effect.gen(function* () {
+        const cryptoKey = yield* keyring.get(keyId);
+        if (Option.isNone(cryptoKey)) {
+          return yield* Effect.fail(new KVDecryptError({ key, keyId, reason: 'unknown key id' }));
+        }
+        return yield* Effect.tryPromise({
+          try: () =>
+            crypto.subtle.decrypt(
+              {
+                name: 'AES-GCM',
+                iv: fromBase64(iv),
+                additionalData: encoder.encode(prefix + key),
+              },
+              cryptoKey.value,
+              ciphertext
+            ),
+          catch: (cause) =>
+            new KVDecryptError({
+              key,
+              keyId,
+              reason: 'value was tampered with or encrypted with a different key',
+              cause,
+            }),
+        });
+      });
+
+    const read = <M>(
+      key: string,
+      getOptions?: Omit<GetOptions, 'type'>
+    ): Effect.Effect<Option.Option<ValueWithMetadata<ArrayBuffer, M>>, KVError> =>
+      Effect.flatMap(
+        inner.getArrayBufferWithMetadata(key, getOptions),
+        Option.match({
+          onNone: () => Effect.succeed(Option.none()),
+          onSome: ({ value, metadata, cacheStatus }) => {
+            const { keyId, iv, rest } = splitMetadata(metadata);
+            if (keyId === undefined || iv === undefined) {
+              return options.allowPlaintext
+                ? Effect.succeed(
+                    Option.some({ value, metadata: metadata as M | null, cacheStatus })
+                  )
+                : Effect.fail(
+                    new KVDecryptError({ key, keyId, reason: 'missing encryption metadata' })
+                  );
+            }
+            return Effect.map(decrypt(key, value, keyId, iv), (plaintext) =>
+              Option.some({ value: plaintext, metadata: rest as M | null, cacheStatus })
+            );
+          },
+        })
+      );
+
+    const readAs = <A, M>(
+      key: string,
+      getOptions: Omit<GetOptions, 'type'> | undefined,
+      convert: (bytes: ArrayBuffer) => A
+    ): Effect.Effect<Option.Option<ValueWithMetadata<A, M>>, KVError> =>
+      Effect.flatMap(read<M>(key, getOptions), (result) =>
+        Effect.try({
+          try: () => Option.map(result, (entry) => ({ ...entry, value: convert(entry.value) })),
+          catch: (cause) => new KVGetError({ key, cause }),
+        })
+      );
+
+    const text = (bytes: ArrayBuffer) => new TextDecoder().decode(bytes);
+    const stream = (bytes: ArrayBuffer) => new Blob([bytes]).stream();
+    const convert: { readonly [T in GetType]: (bytes: ArrayBuffer) => GetValueTypes[T] } = {
+      text,
+      json: (bytes) => JSON.parse(text(bytes)) as unknown,
+      arrayBuffer: (bytes) => bytes,
+      stream,
+    };
+    const valueOf = <A>(
+      effect: Effect.Effect<Option.Option<ValueWithMetadata<A, unknown>>, KVError>
+    ) =>
+      Effect.map(
+        effect,
+        Option.map(({ value }) => value)
+      );
+
+    return deriveKVService({
+      ...inner,
+
+      get: <T extends GetType | undefined = undefined>(
+        key: string,
+        getOptions?: TypedGetOptions<T>
+      ) =>
+        valueOf(
+          readAs(
+            key,
+            getOptions,
+            convert[getOptions?.type ?? 'text'] as (bytes: ArrayBuffer) => GetValue<T>
+          )
+        ),
+
+      getJSON: <T>(key: string, getOptions?: Omit<GetOptions, 'type'>) =>
+        valueOf(readAs(key, getOptions, (bytes) => JSON.parse(text(bytes)) as T)),
+
+      getArrayBuffer: (key, getOptions) => valueOf(read(key, getOptions)),
+
+      getStream: (key, getOptions) => valueOf(readAs(key, getOptions, stream)),
+
+      getWithMetadata: (key, getOptions) => readAs(key, getOptions, text),
+
+      getJSONWithMetadata: <T, M>(key: string, getOptions?: Omit<GetOptions, 'type'>) =>
+        readAs<T, M>(key, getOptions, (bytes) => JSON.parse(text(bytes)) as T),
+
+      getArrayBufferWithMetadata: read,
+
+      getStreamWithMetadata: (key, getOptions) => readAs(key, getOptions, stream),
+
+      getMany: (keys: Iterable<string>, getOptions?: Omit<GetOptions, 'type'> & BatchOptions) =>
+        pipe(
+          forEachKey(
+            'get',
+            new Set(keys),
+            (key) => key,
+            (key) =>
+              Effect.map(valueOf(readAs(key, getOptions, text)), (value) => [key, value] as const),
+            getOptions?.concurrency
+          ),
+          Effect.map((entries) => new Map(entries) as ReadonlyMap<string, Option.Option<string>>)
+        ),
+
+      put: (key, value, putOptions?: PutOptions) =>
+        pipe(
+          checkMetadata(key, putOptions?.metadata, [KEY_ID, IV]),
+          Effect.zipRight(encrypt(key, value)),
+          Effect.flatMap(({ ciphertext, metadata }) => {
+            const { compression: _compression, ...rest } = putOptions ?? {};
+            return inner.put(key, ciphertext, {
+              ...rest,
+              metadata: { ...rest.metadata, ...metadata },
+            });
+          })
+        ),
+
+      // The whole value is encrypted before it is split, so chunks are never plaintext
+      putChunked: (key, value, putOptions?: ChunkedPutOptions) =>
+        pipe(
+          checkMetadata(key, putOptions?.metadata, [KEY_ID, IV]),
+          Effect.zipRight(encrypt(key, value)),
+          Effect.flatMap(({ ciphertext, metadata }) => {
+            const { compression: _compression, ...rest } = putOptions ?? {};
+            return inner.putChunked(key, ciphertext, {
+              ...rest,
+              metadata: { ...rest.metadata, ...metadata },
+            });
+          })
+        ),
+
+      scoped: (scope) => decorateAt(inner.scoped(scope), prefix + scope),
+    });
+  };
+
+  return decorateAt(kv, '');
+};
+
+/**
+ * Creates a Layer that encrypts the values of the KVService of a tag
+ * Requires KVKeyring and the underlying KV layer.
+ * @param options - Optional plaintext fallback
+ * @param tag - KV tag to decorate (defaults to KV)
+ * @returns Layer providing the encrypting KVService in place of the underlying one
+ * @example
+ * ```typescript
+ * const layer = layerEncryption().pipe(
+ *   Layer.provide(KVLive),
+ *   Layer.provide(layerKeyring({ current: '2024-06', keys: { '2024-06': rawKey } }))
+ * );
+ * ```
+ */
+export const layerEncryption: {
+  (options?: EncryptionOptions): Layer.Layer<'effect-kv/KV', never, 'effect-kv/KV' | KVKeyring>;
+  <Id extends string>(
+    options: EncryptionOptions | undefined,
+    tag: Context.Tag<Id, KVService>
+  ): Layer.Layer<Id, never, Id | KVKeyring>;
+} = <Id extends string>(
+  options?: EncryptionOptions,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id, never, Id | KVKeyring> =>
+  Layer.effect(
+    tag,
+    Effect.map(Effect.all([tag, KVKeyring]), ([kv, keyring]) =>
+      withEncryption(kv, keyring, options)
+    )
+  );
+
+/**
+ * Creates a Layer providing a static keyring
+ * Raw keys (16, 24 or 32 bytes) are imported as AES-GCM keys; invalid keys are defects.
+ * @param options - Id of the current key and every key by id
+ * @returns Layer providing KVKeyring
+ */
+export const layerKeyring = (options: {
+  readonly current: string;
+  readonly keys: Readonly<Record<string, CryptoKey | ArrayBuffer | Uint8Array>>;
+}): Layer.Layer<KVKeyring> =>
+  Layer.effect(
+    KVKeyring,
+    Effect.gen(function* () {
+      const keys = new Map<string, CryptoKey>();
+      for (const [id, key] of Object.entries(options.keys)) {
+        const imported =
+          key instanceof ArrayBuffer || key instanceof Uint8Array
+            ? yield* Effect.promise(() =>
+                crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt', 'decrypt'])
+              )
+            : key;
+        keys.set(id, imported);
+      }
+      const current = keys.get(options.current);
+      if (current === undefined) {
+        return yield* Effect.dieMessage(`Unknown current key id "${options.current}"`);
+      }
+      return {
+        current: Effect.succeed({ id: options.current, key: current }),
+        get: (id: string) => Effect.succeed(Option.fromNullable(keys.get(id))),
+      };
+    })
+  );
@@ -1,4 +1,4 @@
-import { Schema } from 'effect';
+import { Duration, ParseResult, Schema } from 'effect';
 
 /**
  * Error raised when a KV get operation fails
@@ -51,9 +51,37 @@ export class KVListError extends Schema.TaggedError<KVListError>('KVListError')(
 }
 
 /**
- * Union of all KV-related errors
+ * Error raised when a KV operation does not complete within the configured timeout
  */
-export type KVError = KVGetError | KVPutError | KVDeleteError | KVListError | KeyNotFoundError;
+export class KVTimeoutError extends Schema.TaggedError<KVTimeoutError>('KVTimeoutError')(
+  'KVTimeoutError',
+  {
+    operation: Schema.String,
+    key: Schema.optional(Schema.String),
+    timeout: Schema.DurationFromSelf,
+  }
+) {
+  override get message(): string {
+    const target = this.key === undefined ? '' : ` for key "${this.key}"`;
+    return `KV ${this.operation}${target} timed out after ${Duration.format(this.timeout)}`;
+  }
+}
+
+/**
+ * Union of the errors a KVService operation can fail with
+ * Features built on the service (typed stores, versioning, locks, snapshots, ...) add their
+ * own errors to their signatures instead of widening this union
+ */
+export type KVError =
+  | KVGetError
+  | KVPutError
+  | KVDeleteError
+  | KVListError
+  | KeyNotFoundError
+  | KVTimeoutError
+  | KVDecryptError
+  | KVValueTooLargeError
+  | KVBatchError;
 
 /**
  * Error raised when a key is not found and strict retrieval is requested
@@ -68,3 +96,193 @@ export class KeyNotFoundError extends Schema.TaggedError<KeyNotFoundError>('KeyN
     return `Key "${this.key}" not found`;
   }
 }
+
+/**
+ * Error raised when a stored value, its metadata or its key does not match the expected schema
+ * Distinguishes corrupt or outdated data from infrastructure failures
+ */
+export class KVDecodeError extends Schema.TaggedError<KVDecodeError>('KVDecodeError')(
+  'KVDecodeError',
+  {
+    key: Schema.String,
+    cause: Schema.instanceOf(ParseResult.ParseError),
+    value: Schema.optional(Schema.Unknown),
+    source: Schema.optionalWith(Schema.Literal('value', 'metadata', 'key'), {
+      default: () => 'value' as const,
+    }),
+  }
+) {
+  override get message(): string {
+    return `Failed to decode ${this.source} for key "${this.key}": ${this.cause.message}`;
+  }
+}
+
+/**
+ * Error raised when a value cannot be encoded with its schema before being stored
+ */
+export class KVEncodeError extends Schema.TaggedError<KVEncodeError>('KVEncodeError')(
+  'KVEncodeError',
+  {
+    key: Schema.String,
+    cause: Schema.instanceOf(ParseResult.ParseError),
+    value: Schema.optional(Schema.Unknown),
+  }
+) {
+  override get message(): string {
+    return `Failed to encode value for key "${this.key}": ${this.cause.message}`;
+  }
+}
+
+/**
+ * Error raised when the schema version of a stored value cannot be resolved
+ */
+export class KVVersionError extends Schema.TaggedError<KVVersionError>('KVVersionError')(
+  'KVVersionError',
+  {
+    key: Schema.String,
+    found: Schema.optional(Schema.Unknown),
+    latest: Schema.Number,
+  }
+) {
+  override get message(): string {
+    const found =
+      this.found === undefined ? 'no version information' : `version ${String(this.found)}`;
+    return `Cannot resolve schema version for key "${this.key}": found ${found}, known versions are 1 to ${this.latest}`;
+  }
+}
+
+/**
+ * Error raised when an encrypted value cannot be decrypted
+ * Covers tampered ciphertext, unknown key ids and values missing encryption metadata
+ */
+export class KVDecryptError extends Schema.TaggedError<KVDecryptError>('KVDecryptError')(
+  'KVDecryptError',
+  {
+    key: Schema.String,
+    keyId: Schema.optional(Schema.String),
+    reason: Schema.String,
+    cause: Schema.optionalWith(Schema.Unknown, { default: () => undefined }),
+  }
+) {
+  override get message(): string {
+    const keyId = this.keyId === undefined ? '' : ` with key id "${this.keyId}"`;
+    return `Failed to decrypt value for key "${this.key}"${keyId}: ${this.reason}`;
+  }
+}
+
+/**
+ * Error raised before a write whose value, metadata, transaction journal or index key
+ * exceeds the KV size limits
+ */
+export class KVValueTooLargeError extends Schema.TaggedError<KVValueTooLargeError>(
+  'KVValueTooLargeError'
+)('KVValueTooLargeError', {
+  key: Schema.String,
+  part: Schema.Literal('value', 'metadata', 'journal', 'index key'),
+  size: Schema.Number,
+  limit: Schema.Number,
+}) {
+  override get message(): string {
+    const hint =
+      this.part === 'value'
+        ? '; use putChunked to store larger values'
+        : this.part === 'journal'
+          ? '; split the transaction into smaller ones'
+          : this.part === 'index key'
+            ? '; index shorter values or use shorter keys'
+            : '';
+    return `The ${this.part} for key "${this.key}" is ${this.size} bytes, over the KV limit of ${this.limit} bytes${hint}`;
+  }
+}
+
+/**
+ * Error raised when an optimistic update keeps losing to concurrent writers
+ */
+export class KVConflictError extends Schema.TaggedError<KVConflictError>('KVConflictError')(
+  'KVConflictError',
+  {
+    key: Schema.String,
+    attempts: Schema.Number,
+  }
+) {
+  override get message(): string {
+    return `Update of key "${this.key}" was overwritten by a concurrent writer on each of ${this.attempts} attempt(s)`;
+  }
+}
+
+/**
+ * Error raised when a lock cannot be acquired
+ */
+export class KVLockError extends Schema.TaggedError<KVLockError>('KVLockError')('KVLockError', {
+  lock: Schema.String,
+  reason: Schema.Literal('held', 'lost'),
+}) {
+  override get message(): string {
+    return this.reason === 'held'
+      ? `Lock "${this.lock}" is held by another owner`
+      : `Lock "${this.lock}" was taken by another owner while being acquired`;
+  }
+}
+
+/**
+ * Error raised when a line of a namespace snapshot cannot be read
+ */
+export class KVSnapshotError extends Schema.TaggedError<KVSnapshotError>('KVSnapshotError')(
+  'KVSnapshotError',
+  {
+    line: Schema.Number,
+    cause: Schema.instanceOf(ParseResult.ParseError),
+  }
+) {
+  override get message(): string {
+    return `Invalid snapshot entry on line ${this.line}: ${this.cause.message}`;
+  }
+}
+
+/**
+ * Error raised when a typed store reads a value written with a different codec
+ */
+export class KVCodecError extends Schema.TaggedError<KVCodecError>('KVCodecError')('KVCodecError', {
+  key: Schema.String,
+  expected: Schema.String,
+  found: Schema.String,
+}) {
+  override get message(): string {
+    return `Value for key "${this.key}" was written with the "${this.found}" codec, but the store uses "${this.expected}"`;
+  }
+}
+
+/**
+ * Error raised when some keys of a bulk operation fail
+ * Every key is attempted; failures are collected per key instead of failing fast
+ */
+export class KVBatchError extends Schema.TaggedError<KVBatchError>('KVBatchError')('KVBatchError', {
+  operation: Schema.Literal('get', 'put', 'delete'),
+  failures: Schema.Array(
+    Schema.Struct({
+      key: Schema.String,
+      error: Schema.Union(
+        KVGetError,
+        KVPutError,
+        KVDeleteError,
+        KVListError,
+        KeyNotFoundError,
+        KVTimeoutError,
+        KVDecodeError,
+        KVEncodeError,
+        KVVersionError,
+        KVDecryptError,
+        KVValueTooLargeError,
+        KVConflictError,
+        KVLockError,
+        KVSnapshotError,
+        KVCodecError
+      ),
+    })
+  ),
+}) {
+  override get message(): string {
+    const keys = this.failures.map((failure) => `"${failure.key}"`).join(', ');
+    return `Bulk ${this.operation} failed for ${this.failures.length} key(s): ${keys}`;
+  }
+}
@@ -54,29 +54,173 @@
  */
 
 // Core service and types
-export { KV, type KVService } from './KV.js';
+export { KV, type KVService, type KVTag } from './KV.js';
 export {
+  type BatchOptions,
+  type ChunkedPutOptions,
+  type CompressionFormat,
+  type CompressionOptions,
   type GetOptions,
+  type GetType,
+  type GetValue,
+  type GetValueTypes,
   type KVValue,
+  type ListAllOptions,
+  type ListKey,
   type ListOptions,
   type ListResult,
+  type PutManyOptions,
   type PutOptions,
+  type TypedGetOptions,
   KVNamespaceTag,
   type TypedKVNamespace,
+  type ValueWithMetadata,
 } from './types.js';
 
 // Error types
 export {
+  KVBatchError,
+  KVCodecError,
+  KVConflictError,
+  KVDecodeError,
+  KVDecryptError,
   KVDeleteError,
+  KVEncodeError,
   KVGetError,
   KVListError,
+  KVLockError,
   KVPutError,
+  KVSnapshotError,
+  KVTimeoutError,
+  KVValueTooLargeError,
+  KVVersionError,
   KeyNotFoundError,
   type KVError,
 } from './errors.js';
 
+// Read-through caching
+export {
+  type CachedFailureOptions,
+  type CachedOptions,
+  type SWROptions,
+  type SWRResult,
+  type SWRStatus,
+} from './cache.js';
+
+// Optimistic updates
+export { type UpdateOptions } from './optimistic.js';
+
+// Distributed locks
+export { acquireLock, KVLock, type Lease, type LockOptions } from './lock.js';
+
+// Journaled transactions
+export {
+  type RecoveryOptions,
+  type RecoveryResult,
+  type Transaction,
+  type TransactionOptions,
+} from './transaction.js';
+
+// Snapshots
+export {
+  exportNamespace,
+  importNamespace,
+  type ExportOptions,
+  type ImportOptions,
+  type ImportProgress,
+  type SnapshotEntry,
+} from './snapshot.js';
+
+// Migrations
+export {
+  migrate,
+  type MigrateOptions,
+  type MigrationEntry,
+  type MigrationResult,
+} from './migrate.js';
+
+// Retry and timeout policy
+export {
+  KVConfig,
+  isTransientKVFailure,
+  layerConfig,
+  type KVConfigOptions,
+  type KVOperation,
+} from './config.js';
+
+// Tracing and metrics
+export { KVMetrics, type KeyRedaction } from './telemetry.js';
+
 // Layer implementations
-export { KVLive, KVNamespaceBinding, KVTest, layerFromNamespace } from './layer.js';
+export {
+  KVLive,
+  KVMemory,
+  KVNamespaceBinding,
+  KVTest,
+  layerFromBinding,
+  layerFromNamespace,
+  layerMemory,
+} from './layer.js';
+
+// Isolate-local L1 cache
+export {
+  layerL1Cache,
+  makeL1Cache,
+  type L1Cache,
+  type L1CacheOptions,
+  type L1CacheStats,
+} from './l1.js';
+
+// Encryption at rest
+export {
+  KVKeyring,
+  layerEncryption,
+  layerKeyring,
+  withEncryption,
+  type EncryptionOptions,
+  type KVEncryptionKey,
+  type KVKeyringService,
+} from './encryption.js';
+
+// In-memory namespace
+export { makeMemoryNamespace } from './memory.js';
 
 // Schema validation
-export { makeTypedKV, KVListResultSchema, KVMetadataSchema, type TypedKV } from './schema.js';
+export {
+  makeTypedKV,
+  KVListResultSchema,
+  KVMetadataSchema,
+  type TypedKV,
+  type TypedKVError,
+  type TypedKVOptions,
+} from './schema.js';
+
+// Value codecs
+export { bytesCodec, jsonCodec, msgpackCodec, type Codec } from './codec.js';
+
+// Key spaces
+export {
+  keySpace,
+  makeKeyedKV,
+  type KeyedKV,
+  type KeyedListEntry,
+  type KeySpace,
+} from './keyspace.js';
+
+// Secondary indexes
+export {
+  makeIndexedKV,
+  type IndexedEntry,
+  type IndexedKV,
+  type IndexedKVOptions,
+  type IndexFunction,
+  type IndexRebuildResult,
+} from './indexes.js';
+
+// Schema versioning
+export {
+  makeVersionedKV,
+  versionedSchema,
+  type VersionedKVOptions,
+  type VersionedSchema,
+} from './versioning.js';
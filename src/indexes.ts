@@ -0,0 +1,379 @@
+import { Chunk, Clock, Context, Effect, Either, Option, pipe, Schema, Stream } from 'effect';
+import { DEFAULT_BATCH_CONCURRENCY, forEachKey } from './batch.js';
+import { MAX_KEY_BYTES } from './chunked.js';
+import type { Codec } from './codec.js';
+import { KVValueTooLargeError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { optimisticUpdate } from './optimistic.js';
+import { carriedExpiration } from './portable.js';
+import { makeTypedStore, schemaFormat, type TypedKV, type TypedKVError } from './schema.js';
+import type { BatchOptions, PutManyOptions, PutOptions } from './types.js';
+
+/**
+ * Computes the values a record is indexed under (none when undefined or empty)
+ */
+export type IndexFunction<V> = (value: V) => string | ReadonlyArray<string> | undefined;
+
+/**
+ * Options for an indexed store
+ */
+export interface IndexedKVOptions<V, I extends string> {
+  /**
+   * Index functions by index name
+   */
+  readonly indexes: { readonly [Name in I]: IndexFunction<V> };
+
+  /**
+   * Prefix of the primary keys, scanned by rebuild (default '', the whole namespace)
+   */
+  readonly prefix?: string;
+
+  /**
+   * Reserved prefix under which index entries are stored (default '_index:')
+   */
+  readonly indexPrefix?: string;
+
+  /**
+   * Maximum number of KV calls in flight when maintaining and resolving indexes (default 10)
+   */
+  readonly concurrency?: number;
+
+  /**
+   * How record values are serialized (default jsonCodec)
+   */
+  readonly codec?: Codec;
+}
+
+/**
+ * A primary record found through an index
+ */
+export interface IndexedEntry<V> {
+  readonly key: string;
+  readonly value: V;
+}
+
+/**
+ * Counts reported by an index rebuild
+ */
+export interface IndexRebuildResult {
+  /**
+   * Primary keys read
+   */
+  readonly scanned: number;
+
+  /**
+   * Missing index entries written
+   */
+  readonly written: number;
+
+  /**
+   * Stale index entries deleted
+   */
+  readonly removed: number;
+
+  /**
+   * Primary keys that could not be read, decoded or indexed, and were left out of the indexes
+   */
+  readonly skipped: number;
+}
+
+/**
+ * A typed store that maintains secondary indexes alongside its records
+ */
+export interface IndexedKV<V, I extends string> extends TypedKV<V> {
+  /**
+   * Deletes a record and its index entries
+   * @param key - The key to delete
+   * @returns Effect that resolves when complete
+   */
+  readonly delete: (key: string) => Effect.Effect<void, TypedKVError>;
+
+  /**
+   * Finds the records indexed under exactly the given value
+   * @param index - Name of the index
+   * @param value - The indexed value
+   * @returns Effect resolving to the matching records
+   */
+  readonly findBy: (
+    index: I,
+    value: string
+  ) => Effect.Effect<Chunk.Chunk<IndexedEntry<V>>, TypedKVError>;
+
+  /**
+   * Streams the records whose indexed value starts with a prefix, in index value order
+   * @param index - Name of the index
+   * @param prefix - Prefix of the indexed values (default '', every record in the index)
+   * @returns Stream of matching records
+   */
+  readonly listBy: (index: I, prefix?: string) => Stream.Stream<IndexedEntry<V>, TypedKVError>;
+
+  /**
+   * Repairs the indexes from the primary records
+   * Scans every key under the primary prefix and writes missing index entries, then scans
+   * the index entries and deletes those under the prefix that no longer match a record.
+   */
+  readonly rebuild: Effect.Effect<IndexRebuildResult, TypedKVError>;
+}
+
+const DEFAULT_INDEX_PREFIX = '_index:';
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to list the values an index function returns for a record
+ */
+const valuesOf = <V>(index: IndexFunction<V>, value: V): ReadonlyArray<string> => {
+  const values = index(value);
+  return values === undefined ? [] : typeof values === 'string' ? [values] : values;
+};
+
+/**
+ * Creates a typed store with secondary indexes
+ * Every put and delete made through the store also writes or removes index entries under a
+ * reserved prefix (`<indexPrefix><index>:<value>:<key>`), with the same expiration as the
+ * record. Lookups read the records back and skip entries that no longer match them, so a
+ * failed or concurrent write can leave extra entries but never wrong results; rebuild
+ * removes them. A put whose entry keys would exceed the KV key length limit fails with
+ * KVValueTooLargeError before anything is written. Values written by cached and
+ * staleWhileRevalidate are not indexed until the next rebuild.
+ * @param schema - Effect Schema for values
+ * @param options - Index functions, primary and index prefixes, concurrency and codec
+ * @param tag - KV tag of the namespace to use (defaults to KV)
+ * @returns IndexedKV instance
+ * @example
+ * ```typescript
+ * const users = yield* makeIndexedKV(UserSchema, {
+ *   prefix: 'user:',
+ *   indexes: { email: (user) => user.email.toLowerCase(), role: (user) => user.roles },
+ * });
+ *
+ * yield* users.put('user:1', { id: 1, email: 'ada@example.com', roles: ['admin'] });
+ * const admins = yield* users.findBy('role', 'admin'); // Chunk<{ key, value }>
+ * ```
+ */
+export const makeIndexedKV: {
+  <V, I extends string>(
+    schema: Schema.Schema<V>,
+    options: IndexedKVOptions<V, I>
+  ): Effect.Effect<IndexedKV<V, I>, never, 'effect-kv/KV'>;
+  <V, I extends string, Id extends string>(
+    schema: Schema.Schema<V>,
+    options: IndexedKVOptions<V, I>,
+    tag: Context.Tag<Id, KVService>
+  ): Effect.Effect<IndexedKV<V, I>, never, Id>;
+} = <V, I extends string, Id extends string>(
+  schema: Schema.Schema<V>,
+  options: IndexedKVOptions<V, I>,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Effect.Effect<IndexedKV<V, I>, never, Id> =>
+  Effect.map(tag, (kv) => {
+    const store = makeTypedStore(kv, schemaFormat(schema, options.codec));
+    const indexPrefix = options.indexPrefix ?? DEFAULT_INDEX_PREFIX;
+    const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    const names = Object.keys(options.indexes) as Array<I>;
+
+    // Index values are URI-encoded so they never contain the ':' before the primary key,
+    // and so prefixes of values remain prefixes of their encodings
+    const indexBase = (index: I) => `${indexPrefix}${index}:`;
+    const entryKey = (index: I, value: string, key: string) =>
+      `${indexBase(index)}${encodeURIComponent(value)}:${key}`;
+    const parseEntry = (index: I, entry: string) => {
+      const rest = entry.slice(indexBase(index).length);
+      const separator = rest.indexOf(':');
+      return {
+        indexed: decodeURIComponent(rest.slice(0, separator)),
+        key: rest.slice(separator + 1),
+      };
+    };
+    const entriesOf = (key: string, value: Option.Option<V>): Array<string> =>
+      Option.match(value, {
+        onNone: () => [],
+        onSome: (record) =>
+          names.flatMap((index) =>
+            valuesOf(options.indexes[index], record).map((indexed) => entryKey(index, indexed, key))
+          ),
+      });
+    const checkEntries = (key: string, entries: Array<string>) => {
+      const size = Math.max(0, ...entries.map((entry) => encoder.encode(entry).byteLength));
+      return size > MAX_KEY_BYTES
+        ? Effect.fail(
+            new KVValueTooLargeError({ key, part: 'index key', size, limit: MAX_KEY_BYTES })
+          )
+        : Effect.succeed(entries);
+    };
+    // Index names may contain ':', so an entry belongs to the longest index base it starts with
+    const longestFirst = [...names].sort((a, b) => b.length - a.length);
+    const indexOf = (entry: string) =>
+      longestFirst.find((index) => entry.startsWith(indexBase(index)));
+
+    // Records that cannot be decoded any more are treated as having no index entries
+    const previous = (key: string) =>
+      Effect.catchTag(store.get(key), 'KVDecodeError', () => Effect.succeed(Option.none<V>()));
+
+    const put = (key: string, value: V, putOptions?: PutOptions) =>
+      Effect.gen(function* () {
+        const after = yield* checkEntries(key, entriesOf(key, Option.some(value)));
+        const before = entriesOf(key, yield* previous(key));
+        const expiry = {
+          expiration: putOptions?.expiration,
+          expirationTtl: putOptions?.expirationTtl,
+        };
+        // New entries first and stale ones last, so the record is never missing from an index
+        yield* Effect.forEach(after, (entry) => kv.put(entry, '', expiry), {
+          concurrency,
+          discard: true,
+        });
+        yield* store.put(key, value, putOptions);
+        yield* Effect.forEach(
+          before.filter((entry) => !after.includes(entry)),
+          kv.delete,
+          { concurrency, discard: true }
+        );
+      });
+
+    const del = (key: string) =>
+      Effect.gen(function* () {
+        const before = entriesOf(key, yield* previous(key));
+        yield* kv.delete(key);
+        yield* Effect.forEach(before, kv.delete, { concurrency, discard: true });
+      });
+
+    const resolve = (index: I, indexed: string, key: string) =>
+      Effect.map(
+        store.get(key),
+        Option.flatMap((value) =>
+          valuesOf(options.indexes[index], value).includes(indexed)
+            ? Option.some<IndexedEntry<V>>({ key, value })
+            : Option.none()
+        )
+      );
+
+    // Lists index entries under a prefix of encoded values and resolves them to records
+    const scan = (index: I, encodedPrefix: string) =>
+      pipe(
+        kv.listAll({ prefix: indexBase(index) + encodedPrefix }),
+        Stream.mapEffect(
+          ({ name }) => {
+            const { indexed, key } = parseEntry(index, name);
+            return resolve(index, indexed, key);
+          },
+          { concurrency }
+        ),
+        Stream.filterMap((entry) => entry)
+      );
+
+    // Records are scanned first for missing entries, then entries for stale ones, one at a
+    // time, so neither side is ever held in memory
+    const rebuild = Effect.gen(function* () {
+      const now = Math.floor((yield* Clock.currentTimeMillis) / 1000);
+      const primaryPrefix = options.prefix ?? '';
+      let scanned = 0;
+      let written = 0;
+      let removed = 0;
+      let skipped = 0;
+
+      yield* pipe(
+        kv.listAll({ prefix: options.prefix }),
+        Stream.filter(({ name }) => !name.startsWith(indexPrefix)),
+        Stream.mapEffect(
+          ({ name, expiration }) =>
+            Effect.gen(function* () {
+              scanned++;
+              // Records already past their expiration are left out, so their entries go as stale
+              const expiry = carriedExpiration(expiration, now);
+              if (Option.isNone(expiry)) {
+                return;
+              }
+              const entries = yield* Effect.either(
+                Effect.flatMap(store.get(name), (value) =>
+                  checkEntries(name, entriesOf(name, value))
+                )
+              );
+              if (Either.isLeft(entries)) {
+                skipped++;
+                yield* Effect.logWarning(
+                  `Skipping "${name}" while rebuilding indexes`,
+                  entries.left
+                );
+                return;
+              }
+              for (const entry of entries.right) {
+                if (Option.isNone(yield* kv.get(entry))) {
+                  yield* kv.put(entry, '', { expiration: expiry.value });
+                  written++;
+                }
+              }
+            }),
+          { concurrency }
+        ),
+        Stream.runDrain
+      );
+
+      // Only entries of this store's indexes and primary prefix are its to remove
+      yield* pipe(
+        Stream.fromIterable(names),
+        Stream.flatMap((index) =>
+          pipe(
+            kv.listAll({ prefix: indexBase(index) }),
+            Stream.filter(({ name }) => indexOf(name) === index),
+            Stream.map(({ name }) => ({ name, index, ...parseEntry(index, name) }))
+          )
+        ),
+        Stream.filter(({ key }) => key.startsWith(primaryPrefix)),
+        Stream.mapEffect(
+          ({ name, index, indexed, key }) =>
+            Effect.gen(function* () {
+              const current = yield* previous(key);
+              const matches = Option.exists(current, (value) =>
+                valuesOf(options.indexes[index], value).includes(indexed)
+              );
+              if (!matches) {
+                yield* kv.delete(name);
+                removed++;
+              }
+            }),
+          { concurrency }
+        ),
+        Stream.runDrain
+      );
+
+      return { scanned, written, removed, skipped };
+    });
+
+    return {
+      ...store,
+
+      put,
+
+      putMany: (entries: Iterable<readonly [string, V]>, putOptions?: PutManyOptions) => {
+        const { concurrency: batchConcurrency, ...rest } = putOptions ?? {};
+        return pipe(
+          forEachKey(
+            'put',
+            entries,
+            ([key]) => key,
+            ([key, value]) => put(key, value, rest),
+            batchConcurrency
+          ),
+          Effect.asVoid
+        );
+      },
+
+      delete: del,
+
+      deleteMany: (keys: Iterable<string>, batchOptions?: BatchOptions) =>
+        pipe(
+          forEachKey('delete', keys, (key) => key, del, batchOptions?.concurrency),
+          Effect.asVoid
+        ),
+
+      modify: (key, f, updateOptions) =>
+        optimisticUpdate((name) => store.getWithMetadata(name), put, key, f, updateOptions),
+
+      findBy: (index, value) => Stream.runCollect(scan(index, `${encodeURIComponent(value)}:`)),
+
+      listBy: (index, prefix = '') => scan(index, encodeURIComponent(prefix)),
+
+      rebuild,
+    };
+  });
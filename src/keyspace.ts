@@ -0,0 +1,239 @@
+import {
+  Chunk,
+  Context,
+  Effect,
+  Inspectable,
+  Option,
+  ParseResult,
+  pipe,
+  Schema,
+  Stream,
+} from 'effect';
+import { KVDecodeError, KVEncodeError, type KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { makeTypedStore, schemaFormat, type TypedKVError } from './schema.js';
+import type { ListAllOptions, PutOptions } from './types.js';
+
+/**
+ * A region of the key space: a prefix plus a schema that encodes structured keys
+ * into the part of the key that follows the prefix
+ */
+export interface KeySpace<K> {
+  /**
+   * Prefix shared by every key in the space (e.g. 'user:')
+   */
+  readonly prefix: string;
+
+  /**
+   * Schema encoding a structured key to the string that follows the prefix
+   */
+  readonly schema: Schema.Schema<K, string>;
+
+  /**
+   * Encodes a structured key into its full KV key
+   * @param key - The structured key
+   * @returns Effect resolving to the prefixed key
+   */
+  readonly encode: (key: K) => Effect.Effect<string, KVEncodeError>;
+
+  /**
+   * Decodes a full KV key back into its structured form
+   * @param name - The prefixed key
+   * @returns Effect resolving to the structured key
+   */
+  readonly decode: (name: string) => Effect.Effect<K, KVDecodeError>;
+}
+
+/**
+ * Creates a key space from a prefix and a key schema
+ * @param prefix - Prefix shared by every key in the space
+ * @param schema - Schema encoding keys to the string that follows the prefix
+ * @returns KeySpace for the given prefix
+ * @example
+ * ```typescript
+ * // Plain string ids
+ * const Users = keySpace('user:', Schema.String);
+ *
+ * // Structured keys, e.g. order:<customerId>:<orderId>
+ * const OrderKey = Schema.TemplateLiteralParser(Schema.NumberFromString, ':', Schema.String);
+ * const Orders = keySpace('order:', OrderKey);
+ * ```
+ */
+export const keySpace = <K, I extends string>(
+  prefix: string,
+  schema: Schema.Schema<K, I>
+): KeySpace<K> => ({
+  prefix,
+  // Any schema encoding to a string will do; decoding still checks the narrower encoding
+  schema: schema as unknown as Schema.Schema<K, string>,
+  encode: (key) =>
+    pipe(
+      Schema.encode(schema)(key),
+      Effect.map((encoded) => prefix + encoded),
+      // Without an encoded key, the full key is reported with the structured key in its place
+      Effect.mapError(
+        (cause) =>
+          new KVEncodeError({
+            key: prefix + Inspectable.toStringUnknown(key, 0),
+            cause,
+            value: key,
+          })
+      )
+    ),
+  decode: (name) =>
+    pipe(
+      name.startsWith(prefix)
+        ? Schema.decodeUnknown(schema)(name.slice(prefix.length))
+        : Effect.fail(
+            new ParseResult.ParseError({
+              issue: new ParseResult.Type(
+                schema.ast,
+                name,
+                `Expected a key starting with "${prefix}", got "${name}"`
+              ),
+            })
+          ),
+      Effect.mapError(
+        (cause) => new KVDecodeError({ key: name, cause, value: name, source: 'key' })
+      )
+    ),
+});
+
+/**
+ * A key in a key space returned by listing, with its stored expiration and metadata
+ */
+export interface KeyedListEntry<K> {
+  readonly key: K;
+  readonly expiration?: number;
+  readonly metadata?: unknown;
+}
+
+/**
+ * Schema-validated KV operations addressed by structured keys within a key space
+ */
+export interface KeyedKV<K, V> {
+  /**
+   * The key space this store is bound to
+   */
+  readonly space: KeySpace<K>;
+
+  /**
+   * Retrieves and validates a value
+   * @param key - The structured key
+   * @returns Effect resolving to validated value (None if not found)
+   */
+  readonly get: (key: K) => Effect.Effect<Option.Option<V>, TypedKVError>;
+
+  /**
+   * Validates and stores a value
+   * @param key - The structured key
+   * @param value - The value to validate and store
+   * @param options - Optional put configuration
+   * @returns Effect that resolves when complete
+   */
+  readonly put: (key: K, value: V, options?: PutOptions) => Effect.Effect<void, TypedKVError>;
+
+  /**
+   * Deletes a key
+   * @param key - The structured key
+   * @returns Effect that resolves when complete
+   */
+  readonly delete: (key: K) => Effect.Effect<void, KVError | KVEncodeError>;
+
+  /**
+   * Retrieves value or fails with KeyNotFoundError if not found
+   * @param key - The structured key
+   * @returns Effect resolving to validated value
+   */
+  readonly getOrFail: (key: K) => Effect.Effect<V, TypedKVError>;
+
+  /**
+   * Retrieves value with a default fallback
+   * @param key - The structured key
+   * @param defaultValue - Value to return if key not found
+   * @returns Effect resolving to validated value or default
+   */
+  readonly getOrElse: (key: K, defaultValue: V) => Effect.Effect<V, TypedKVError>;
+
+  /**
+   * Streams every key in the space, decoded back to its structured form
+   * @param options - Optional prefix (relative to the space), page size and maximum count
+   * @returns Stream of decoded keys with their expiration and metadata
+   */
+  readonly listAll: (
+    options?: ListAllOptions
+  ) => Stream.Stream<KeyedListEntry<K>, KVError | KVDecodeError>;
+
+  /**
+   * Collects every key in the space, decoded back to its structured form
+   * @returns Effect resolving to all decoded keys
+   */
+  readonly keys: () => Effect.Effect<Chunk.Chunk<K>, KVError | KVDecodeError>;
+}
+
+/**
+ * Creates a typed store bound to a key space
+ * Keys are encoded with the space's key schema and values with the value schema;
+ * listing only covers the space's prefix and yields decoded keys.
+ * @param space - The key space
+ * @param schema - Effect Schema for values
+ * @param tag - KV tag of the namespace to use (defaults to KV)
+ * @returns KeyedKV instance
+ * @example
+ * ```typescript
+ * const Users = keySpace('user:', Schema.NumberFromString);
+ * const users = yield* makeKeyedKV(Users, UserSchema);
+ *
+ * yield* users.put(123, { id: 123, name: 'Alice' }); // stored under "user:123"
+ * const ids = yield* users.keys(); // Chunk<number>
+ * ```
+ */
+export const makeKeyedKV: {
+  <K, V>(
+    space: KeySpace<K>,
+    schema: Schema.Schema<V>
+  ): Effect.Effect<KeyedKV<K, V>, never, 'effect-kv/KV'>;
+  <K, V, Id extends string>(
+    space: KeySpace<K>,
+    schema: Schema.Schema<V>,
+    tag: Context.Tag<Id, KVService>
+  ): Effect.Effect<KeyedKV<K, V>, never, Id>;
+} = <K, V, Id extends string>(
+  space: KeySpace<K>,
+  schema: Schema.Schema<V>,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Effect.Effect<KeyedKV<K, V>, never, Id> =>
+  Effect.map(tag, (kv) => {
+    const store = makeTypedStore(kv, schemaFormat(schema));
+
+    const withKey =
+      <A extends ReadonlyArray<unknown>, B, E>(
+        f: (name: string, ...args: A) => Effect.Effect<B, E>
+      ) =>
+      (key: K, ...args: A) =>
+        Effect.flatMap(space.encode(key), (name) => f(name, ...args));
+
+    const listAll = (options?: ListAllOptions) =>
+      pipe(
+        kv.listAll({ ...options, prefix: space.prefix + (options?.prefix ?? '') }),
+        Stream.mapEffect(({ name, ...rest }) =>
+          Effect.map(space.decode(name), (key): KeyedListEntry<K> => ({ key, ...rest }))
+        )
+      );
+
+    return {
+      space,
+      get: withKey(store.get),
+      put: withKey(store.put),
+      delete: withKey(kv.delete),
+      getOrFail: withKey(store.getOrFail),
+      getOrElse: withKey(store.getOrElse),
+      listAll,
+      keys: () =>
+        pipe(
+          listAll(),
+          Stream.map(({ key }) => key),
+          Stream.runCollect
+        ),
+    };
+  });
@@ -0,0 +1,427 @@
+import { Clock, Context, Duration, Effect, FiberRef, Layer, Option, pipe } from 'effect';
+import { bypassCaches, keyLocationOf } from './cache.js';
+import { KVGetError, type KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { deriveKVService } from './service.js';
+import type {
+  BatchOptions,
+  GetOptions,
+  GetType,
+  GetValue,
+  KVValue,
+  PutOptions,
+  TypedGetOptions,
+  ValueWithMetadata,
+} from './types.js';
+
+/**
+ * Options for the isolate-local L1 cache
+ */
+export interface L1CacheOptions {
+  /**
+   * Maximum number of cached keys (default 1000)
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * Maximum total size of cached values and metadata in bytes (default 8 MiB)
+   */
+  readonly maxBytes?: number;
+
+  /**
+   * How long an entry is served from memory, optionally per key (default 60 seconds)
+   */
+  readonly ttl?: Duration.DurationInput | ((key: string) => Duration.DurationInput);
+}
+
+/**
+ * Counters describing the L1 cache
+ */
+export interface L1CacheStats {
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+  readonly entries: number;
+  readonly bytes: number;
+}
+
+/**
+ * An isolate-local LRU cache that can be placed in front of any KVService
+ */
+export interface L1Cache {
+  /**
+   * Wraps a KVService so reads are served from memory when possible
+   * @param kv - The service to wrap
+   * @returns KVService backed by this cache
+   */
+  readonly decorate: (kv: KVService) => KVService;
+
+  /**
+   * Current hit, miss and eviction counters and cache size
+   */
+  readonly stats: Effect.Effect<L1CacheStats>;
+
+  /**
+   * Drops every cached entry
+   */
+  readonly clear: Effect.Effect<void>;
+}
+
+/**
+ * A cached read: the value (null for a missing key) with its metadata
+ */
+interface L1Entry {
+  readonly type: 'text' | 'arrayBuffer';
+  readonly value: string | ArrayBuffer | null;
+  readonly metadata: unknown;
+  readonly cacheStatus: string | null;
+  /**
+   * Whether the metadata was read with the value; getMany reads values alone
+   */
+  readonly hasMetadata: boolean;
+  readonly bytes: number;
+  readonly expiresAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 8 * 1024 * 1024;
+const DEFAULT_TTL: Duration.DurationInput = '60 seconds';
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to estimate the memory held by a cached value and its metadata
+ */
+const sizeOf = (value: string | ArrayBuffer | null, metadata: unknown): number =>
+  (typeof value === 'string' ? encoder.encode(value).byteLength : (value?.byteLength ?? 0)) +
+  (metadata === null || metadata === undefined ? 0 : JSON.stringify(metadata).length);
+
+/**
+ * Creates an isolate-local LRU cache for KV reads
+ * Create it once at module scope so it survives across requests handled by the isolate.
+ * Reads of text, JSON and ArrayBuffer values (including missing keys) are cached, whether
+ * through the named methods or the get type option; streams are not. Writes and deletes
+ * made through the decorated service update or invalidate the cache; writes made elsewhere
+ * become visible once the entry's TTL has passed. Locks and the writes of update and modify
+ * run with caches bypassed, since they are checked by reading them back from KV.
+ * Use one cache per namespace.
+ * @param options - Entry and byte limits and TTL
+ * @returns L1Cache instance
+ * @example
+ * ```typescript
+ * const cache = makeL1Cache({ maxEntries: 500, ttl: '30 seconds' });
+ * const CachedKVLive = layerL1Cache(cache).pipe(Layer.provide(KVLive));
+ * ```
+ */
+export const makeL1Cache = (options: L1CacheOptions = {}): L1Cache => {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const ttlOf = (key: string) =>
+    Duration.toMillis(
+      typeof options.ttl === 'function' ? options.ttl(key) : (options.ttl ?? DEFAULT_TTL)
+    );
+
+  // Map iteration order doubles as recency order: the first key is the least recently used
+  const entries = new Map<string, L1Entry>();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry !== undefined) {
+      entries.delete(key);
+      bytes -= entry.bytes;
+    }
+  };
+
+  const lookup = (key: string, type: L1Entry['type'], withMetadata: boolean) =>
+    Effect.map(Clock.currentTimeMillis, (now) => {
+      const entry = entries.get(key);
+      if (entry === undefined || entry.expiresAt <= now) {
+        remove(key);
+        misses++;
+        return Option.none<L1Entry>();
+      }
+      // A missing key is missing whatever the type it is read as
+      if (entry.value !== null && (entry.type !== type || (withMetadata && !entry.hasMetadata))) {
+        misses++;
+        return Option.none<L1Entry>();
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return Option.some(entry);
+    });
+
+  const store = (
+    key: string,
+    type: L1Entry['type'],
+    value: string | ArrayBuffer | null,
+    metadata: unknown,
+    cacheStatus: string | null,
+    maxAge = Infinity,
+    hasMetadata = true
+  ) =>
+    Effect.map(Clock.currentTimeMillis, (now) => {
+      remove(key);
+      const size = sizeOf(value, metadata);
+      if (size > maxBytes) {
+        return;
+      }
+      entries.set(key, {
+        type,
+        value,
+        metadata,
+        cacheStatus,
+        hasMetadata,
+        bytes: size,
+        expiresAt: now + Math.min(ttlOf(key), maxAge),
+      });
+      bytes += size;
+      for (const [oldest] of entries) {
+        if (entries.size <= maxEntries && bytes <= maxBytes) {
+          break;
+        }
+        remove(oldest);
+        evictions++;
+      }
+    });
+
+  const decorateAt = (kv: KVService, prefix: string): KVService => {
+    const readText = <M>(key: string, options?: Omit<GetOptions, 'type'>, withMetadata = true) =>
+      Effect.flatMap(FiberRef.get(bypassCaches), (bypass) =>
+        bypass
+          ? kv.getWithMetadata<M>(key, options)
+          : Effect.flatMap(
+              lookup(prefix + key, 'text', withMetadata),
+              Option.match({
+                onSome: (entry) =>
+                  Effect.succeed(
+                    entry.value === null
+                      ? Option.none<ValueWithMetadata<string, M>>()
+                      : Option.some({
+                          value: entry.value as string,
+                          metadata: entry.metadata as M | null,
+                          cacheStatus: entry.cacheStatus,
+                        })
+                  ),
+                onNone: () =>
+                  pipe(
+                    kv.getWithMetadata<M>(key, options),
+                    Effect.tap((result) =>
+                      Option.match(result, {
+                        onNone: () => store(prefix + key, 'text', null, null, null),
+                        onSome: ({ value, metadata, cacheStatus }) =>
+                          store(prefix + key, 'text', value, metadata, cacheStatus),
+                      })
+                    )
+                  ),
+              })
+            )
+      );
+
+    const readArrayBuffer = <M>(
+      key: string,
+      options?: Omit<GetOptions, 'type'>,
+      withMetadata = true
+    ) =>
+      Effect.flatMap(FiberRef.get(bypassCaches), (bypass) =>
+        bypass
+          ? kv.getArrayBufferWithMetadata<M>(key, options)
+          : Effect.flatMap(
+              lookup(prefix + key, 'arrayBuffer', withMetadata),
+              Option.match({
+                onSome: (entry) =>
+                  Effect.succeed(
+                    entry.value === null
+                      ? Option.none<ValueWithMetadata<ArrayBuffer, M>>()
+                      : Option.some({
+                          value: (entry.value as ArrayBuffer).slice(0),
+                          metadata: entry.metadata as M | null,
+                          cacheStatus: entry.cacheStatus,
+                        })
+                  ),
+                onNone: () =>
+                  pipe(
+                    kv.getArrayBufferWithMetadata<M>(key, options),
+                    Effect.tap((result) =>
+                      Option.match(result, {
+                        onNone: () => store(prefix + key, 'arrayBuffer', null, null, null),
+                        onSome: ({ value, metadata, cacheStatus }) =>
+                          store(prefix + key, 'arrayBuffer', value.slice(0), metadata, cacheStatus),
+                      })
+                    )
+                  ),
+              })
+            )
+      );
+
+    const parseJSON = <T, M>(key: string, result: Option.Option<ValueWithMetadata<string, M>>) =>
+      Effect.try({
+        try: () =>
+          Option.map(result, (entry) => ({ ...entry, value: JSON.parse(entry.value) as T })),
+        catch: (cause) => new KVGetError({ key, cause }),
+      });
+
+    const put = (key: string, value: KVValue, options?: PutOptions) =>
+      pipe(
+        Effect.sync(() => remove(prefix + key)),
+        Effect.zipRight(kv.put(key, value, options)),
+        Effect.zipRight(
+          Effect.gen(function* () {
+            if (value instanceof ReadableStream || (yield* FiberRef.get(bypassCaches))) {
+              return;
+            }
+            // Never serve a value from memory past the expiration it was written with
+            const now = yield* Clock.currentTimeMillis;
+            const maxAge = Math.min(
+              options?.expirationTtl === undefined ? Infinity : options.expirationTtl * 1000,
+              options?.expiration === undefined ? Infinity : options.expiration * 1000 - now
+            );
+            const metadata = options?.metadata ?? null;
+            yield* typeof value === 'string'
+              ? store(prefix + key, 'text', value, metadata, null, maxAge)
+              : store(prefix + key, 'arrayBuffer', value.slice(0), metadata, null, maxAge);
+          })
+        )
+      );
+
+    // The cache is transparent, so cached computations are shared with the service it wraps
+    return deriveKVService(
+      {
+        ...kv,
+
+        get: <T extends GetType | undefined = undefined>(
+          key: string,
+          options?: TypedGetOptions<T>
+        ) => {
+          const type = options?.type ?? 'text';
+          const result: Effect.Effect<Option.Option<unknown>, KVError> = type === 'text'
+            ? Effect.map(
+                readText(key, options, false),
+                Option.map(({ value }) => value)
+              )
+            : type === 'json'
+              ? pipe(
+                  readText(key, options, false),
+                  Effect.flatMap((entry) => parseJSON<unknown, unknown>(key, entry)),
+                  Effect.map(Option.map(({ value }) => value))
+                )
+              : type === 'arrayBuffer'
+                ? Effect.map(
+                    readArrayBuffer(key, options, false),
+                    Option.map(({ value }) => value)
+                  )
+                : kv.get(key, options);
+          return result as Effect.Effect<Option.Option<GetValue<T>>, KVError>;
+        },
+
+        getJSON: <T>(key: string, options?: Omit<GetOptions, 'type'>) =>
+          pipe(
+            readText(key, options, false),
+            Effect.flatMap((result) => parseJSON<T, unknown>(key, result)),
+            Effect.map(Option.map(({ value }) => value))
+          ),
+
+        getArrayBuffer: (key, options) =>
+          Effect.map(
+            readArrayBuffer(key, options, false),
+            Option.map(({ value }) => value)
+          ),
+
+        getWithMetadata: readText,
+
+        getJSONWithMetadata: <T, M>(key: string, options?: Omit<GetOptions, 'type'>) =>
+          Effect.flatMap(readText<M>(key, options), (result) => parseJSON<T, M>(key, result)),
+
+        getArrayBufferWithMetadata: readArrayBuffer,
+
+        getMany: (keys: Iterable<string>, options?: Omit<GetOptions, 'type'> & BatchOptions) =>
+          Effect.gen(function* () {
+            const requested = Array.from(new Set(keys));
+            const values = new Map<string, Option.Option<string>>();
+            const pending: Array<string> = [];
+            const bypass = yield* FiberRef.get(bypassCaches);
+            for (const key of requested) {
+              const cached = bypass
+                ? Option.none<L1Entry>()
+                : yield* lookup(prefix + key, 'text', false);
+              if (Option.isSome(cached)) {
+                values.set(key, Option.fromNullable(cached.value.value as string | null));
+              } else {
+                pending.push(key);
+              }
+            }
+            if (pending.length > 0) {
+              const fetched = yield* kv.getMany(pending, options);
+              for (const [key, value] of fetched) {
+                values.set(key, value);
+                if (!bypass) {
+                  yield* store(
+                    prefix + key,
+                    'text',
+                    Option.getOrNull(value),
+                    null,
+                    null,
+                    Infinity,
+                    false
+                  );
+                }
+              }
+            }
+            // Keep the order in which the keys were requested
+            return new Map(
+              requested.map((key) => [key, values.get(key) ?? Option.none()] as const)
+            ) as ReadonlyMap<string, Option.Option<string>>;
+          }),
+
+        put,
+
+        putChunked: (key, value, options) =>
+          pipe(
+            Effect.sync(() => remove(prefix + key)),
+            Effect.zipRight(kv.putChunked(key, value, options))
+          ),
+
+        delete: (key) =>
+          pipe(kv.delete(key), Effect.ensuring(Effect.sync(() => remove(prefix + key)))),
+
+        scoped: (scope) => decorateAt(kv.scoped(scope), prefix + scope),
+      },
+      keyLocationOf(kv)
+    );
+  };
+
+  return {
+    decorate: (kv) => decorateAt(kv, ''),
+
+    stats: Effect.sync(() => ({ hits, misses, evictions, entries: entries.size, bytes })),
+
+    clear: Effect.sync(() => {
+      entries.clear();
+      bytes = 0;
+    }),
+  };
+};
+
+/**
+ * Creates a Layer that places an L1 cache in front of the KVService of a tag
+ * Provide the underlying KV layer (e.g. KVLive or layerFromNamespace) to it.
+ * @param cache - The cache to use, usually created once at module scope
+ * @param tag - KV tag to decorate (defaults to KV)
+ * @returns Layer providing the cached KVService in place of the underlying one
+ * @example
+ * ```typescript
+ * const cache = makeL1Cache({ ttl: '30 seconds' });
+ * const layer = layerL1Cache(cache).pipe(Layer.provide(layerFromNamespace(env.KV_NAMESPACE)));
+ * ```
+ */
+export const layerL1Cache: {
+  (cache: L1Cache): Layer.Layer<'effect-kv/KV', never, 'effect-kv/KV'>;
+  <Id extends string>(cache: L1Cache, tag: Context.Tag<Id, KVService>): Layer.Layer<Id, never, Id>;
+} = <Id extends string>(
+  cache: L1Cache,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id, never, Id> => Layer.effect(tag, Effect.map(tag, cache.decorate));
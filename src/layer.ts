@@ -1,15 +1,43 @@
-import { Context, Effect, Layer, Option, pipe } from 'effect';
-import type { KVNamespace } from '@cloudflare/workers-types';
+import { Array as Arr, Context, Effect, Layer, Option, pipe } from 'effect';
+import type { KVNamespace, KVNamespaceGetWithMetadataResult } from '@cloudflare/workers-types';
 import {
+  KVBatchError,
   KVDeleteError,
   KVGetError,
-  KeyNotFoundError,
   KVListError,
   KVPutError,
   type KVError,
+  type KVValueTooLargeError,
 } from './errors.js';
+import { DEFAULT_BATCH_CONCURRENCY, forEachKey } from './batch.js';
+import {
+  checkSize,
+  chunkKeysOf,
+  chunkLayoutOf,
+  readChunkLayout,
+  readChunks,
+  writeChunked,
+} from './chunked.js';
+import { compressionOf, compressValue, decodeStoredValue } from './compression.js';
+import { KVConfig, withPolicy, type KVConfigOptions, type KVOperation } from './config.js';
+import { byteSize, instrument, type KVOutcome, type KVSpanDetails } from './telemetry.js';
 import { KV, type KVService } from './KV.js';
-import type { GetOptions, ListOptions, ListResult, PutOptions } from './types.js';
+import { makeMemoryNamespace } from './memory.js';
+import { checkMetadata, STORAGE_MARKERS, userMetadata } from './portable.js';
+import { deriveKVService } from './service.js';
+import type {
+  BatchOptions,
+  ChunkedPutOptions,
+  GetOptions,
+  GetType,
+  GetValue,
+  KVValue,
+  ListOptions,
+  ListResult,
+  PutOptions,
+  TypedGetOptions,
+  ValueWithMetadata,
+} from './types.js';
 
 /**
  * Context tag for the raw KVNamespace binding
@@ -20,25 +48,121 @@ export class KVNamespaceBinding extends Context.Tag('effect-kv/KVNamespaceBindin
 >() {}
 
 /**
- * Helper to get a value from KV namespace with error handling
+ * Helper to hide storage markers from the metadata reads return, so it can be written back
+ */
+const readMetadata = <M>(metadata: M | null): M | null =>
+  typeof metadata === 'object' &&
+  metadata !== null &&
+  STORAGE_MARKERS.some((name) => name in metadata)
+    ? ((userMetadata(metadata) ?? null) as M | null)
+    : metadata;
+
+/**
+ * Helper to read a value and its metadata from KV namespace
+ * Values are fetched as bytes (or a stream) so that values stored compressed can be
+ * decompressed, and chunked values reassembled from their manifest, before conversion.
+ * Bindings without getWithMetadata, such as minimal test doubles, are read with get and
+ * report no metadata.
  */
-const getFromNamespace = (
+const readFromNamespace = <V, M>(
   namespace: KVNamespace,
   key: string,
-  options?: GetOptions
-): Effect.Effect<string | null, KVGetError> =>
+  type: GetType,
+  options?: Omit<GetOptions, 'type'>
+): Effect.Effect<ValueWithMetadata<V, M> | null, KVGetError> =>
   Effect.tryPromise({
-    try: () => {
-      const type = options?.type ?? 'text';
-      if (type === 'text') {
-        return namespace.get(key, { type: 'text', cacheTtl: options?.cacheTtl });
+    try: async () => {
+      if (typeof namespace.getWithMetadata !== 'function') {
+        const value: unknown = await namespace.get(key, {
+          type: type as 'text',
+          cacheTtl: options?.cacheTtl,
+        });
+        return value === null ? null : { value: value as V, metadata: null, cacheStatus: null };
       }
-      // For other types, return as text and let the caller handle conversion
-      return namespace.get(key, { type: 'text', cacheTtl: options?.cacheTtl });
+      const result = await namespace.getWithMetadata<M>(key, {
+        type: (type === 'stream' ? 'stream' : 'arrayBuffer') as 'arrayBuffer',
+        cacheTtl: options?.cacheTtl,
+      });
+      if (result.value === null) {
+        return null;
+      }
+      const layout = chunkLayoutOf(result.metadata);
+      const stored =
+        layout === undefined
+          ? result.value
+          : readChunks(namespace, key, layout, await new Response(result.value).text());
+      const value = await decodeStoredValue(stored, type, compressionOf(result.metadata));
+      return {
+        value: value as V,
+        metadata: readMetadata(result.metadata),
+        cacheStatus: result.cacheStatus,
+      };
     },
     catch: (cause) => new KVGetError({ key, cause }),
   });
 
+/**
+ * Helper to get a value from KV namespace, read as the requested type (text by default)
+ */
+const getFromNamespace = <T extends GetType | undefined>(
+  namespace: KVNamespace,
+  key: string,
+  options?: TypedGetOptions<T>
+): Effect.Effect<GetValue<T> | null, KVGetError> =>
+  Effect.map(
+    readFromNamespace<GetValue<T>, unknown>(namespace, key, options?.type ?? 'text', options),
+    (result) => result?.value ?? null
+  );
+
+/**
+ * Maximum number of keys accepted by a single multi-key get
+ */
+const BULK_GET_LIMIT = 100;
+
+/**
+ * Helper to get many text values with a single multi-key get
+ * Resolves to the keys it could serve: none when the binding does not support the
+ * multi-key form, and none of the keys stored compressed or chunked, which must be read one
+ * by one. A failed call fails for every key.
+ */
+const getBulkFromNamespace = (
+  namespace: KVNamespace,
+  keys: Array<string>,
+  options?: Omit<GetOptions, 'type'>
+): Effect.Effect<Map<string, string | null>, KVBatchError> =>
+  Effect.tryPromise({
+    try: async () => {
+      const getOptions = { type: 'text' as const, cacheTtl: options?.cacheTtl };
+      if (typeof namespace.getWithMetadata !== 'function') {
+        const result: unknown = await namespace.get(keys, getOptions);
+        return result instanceof Map ? (result as Map<string, string | null>) : new Map();
+      }
+      const result: unknown = await namespace.getWithMetadata(keys, getOptions);
+      const values = new Map<string, string | null>();
+      if (result instanceof Map) {
+        for (const [key, entry] of result as Map<
+          string,
+          KVNamespaceGetWithMetadataResult<string, unknown> | null
+        >) {
+          if (entry === null || entry.value === null) {
+            values.set(key, null);
+          } else if (
+            compressionOf(entry.metadata) === undefined &&
+            chunkLayoutOf(entry.metadata) === undefined
+          ) {
+            values.set(key, entry.value);
+          }
+        }
+      }
+      return values;
+    },
+    catch: (cause) =>
+      new KVBatchError({
+        operation: 'get',
+        failures: keys.map((key) => ({ key, error: new KVGetError({ key, cause }) })),
+      }),
+  });
+
 /**
  * Helper to get JSON from KV namespace
  */
@@ -47,14 +171,10 @@ const getJSONFromNamespace = <T>(
   key: string,
   options?: Omit<GetOptions, 'type'>
 ): Effect.Effect<T | null, KVGetError> =>
-  Effect.tryPromise({
-    try: () =>
-      namespace.get(key, {
-        type: 'json',
-        cacheTtl: options?.cacheTtl,
-      }) as Promise<T | null>,
-    catch: (cause) => new KVGetError({ key, cause }),
-  });
+  Effect.map(
+    readFromNamespace<T, unknown>(namespace, key, 'json', options),
+    (result) => result?.value ?? null
+  );
 
 /**
  * Helper to get ArrayBuffer from KV namespace
@@ -64,14 +184,10 @@ const getArrayBufferFromNamespace = (
   key: string,
   options?: Omit<GetOptions, 'type'>
 ): Effect.Effect<ArrayBuffer | null, KVGetError> =>
-  Effect.tryPromise({
-    try: () =>
-      namespace.get(key, {
-        type: 'arrayBuffer',
-        cacheTtl: options?.cacheTtl,
-      }),
-    catch: (cause) => new KVGetError({ key, cause }),
-  });
+  Effect.map(
+    readFromNamespace<ArrayBuffer, unknown>(namespace, key, 'arrayBuffer', options),
+    (result) => result?.value ?? null
+  );
 
 /**
  * Helper to get stream from KV namespace
@@ -81,32 +197,47 @@ const getStreamFromNamespace = (
   key: string,
   options?: Omit<GetOptions, 'type'>
 ): Effect.Effect<ReadableStream | null, KVGetError> =>
-  Effect.tryPromise({
-    try: () =>
-      namespace.get(key, {
-        type: 'stream',
-        cacheTtl: options?.cacheTtl,
-      }),
-    catch: (cause) => new KVGetError({ key, cause }),
-  });
+  Effect.map(
+    readFromNamespace<ReadableStream, unknown>(namespace, key, 'stream', options),
+    (result) => result?.value ?? null
+  );
+
+/**
+ * Helper to get a value and its metadata from KV namespace
+ */
+const getWithMetadataFromNamespace = <V, M>(
+  namespace: KVNamespace,
+  key: string,
+  type: GetType,
+  options?: Omit<GetOptions, 'type'>
+): Effect.Effect<Option.Option<ValueWithMetadata<V, M>>, KVGetError> =>
+  Effect.map(readFromNamespace<V, M>(namespace, key, type, options), Option.fromNullable);
 
 /**
- * Helper to put a value to KV namespace
+ * Helper to put a value to KV namespace, compressing it first when requested
+ * Values and metadata over the KV size limits fail before the write is attempted
  */
 const putToNamespace = (
   namespace: KVNamespace,
   key: string,
   value: string | ArrayBuffer | ReadableStream,
   options?: PutOptions
-): Effect.Effect<void, KVPutError> =>
-  Effect.tryPromise({
-    try: () =>
-      namespace.put(key, value, {
-        expiration: options?.expiration,
-        expirationTtl: options?.expirationTtl,
-        metadata: options?.metadata,
-      }),
-    catch: (cause) => new KVPutError({ key, cause }),
+): Effect.Effect<void, KVPutError | KVValueTooLargeError> =>
+  Effect.gen(function* () {
+    const [stored, storedOptions] = yield* Effect.tryPromise({
+      try: () => compressValue(value, options),
+      catch: (cause) => new KVPutError({ key, cause }),
+    });
+    yield* checkSize(key, stored, storedOptions?.metadata);
+    yield* Effect.tryPromise({
+      try: () =>
+        namespace.put(key, stored, {
+          expiration: storedOptions?.expiration,
+          expirationTtl: storedOptions?.expirationTtl,
+          metadata: storedOptions?.metadata,
+        }),
+      catch: (cause) => new KVPutError({ key, cause }),
+    });
   });
 
 /**
@@ -141,74 +272,346 @@ const listFromNamespace = (
   });
 
 /**
- * Implementation of KVService interface
+ * Helper to wrap a KV namespace so every key is prefixed
+ * List results have the prefix stripped so names stay relative to the scope
  */
-const makeKVService = (namespace: KVNamespace): KVService => ({
-  get: (key, options) =>
-    pipe(getFromNamespace(namespace, key, options), Effect.map(Option.fromNullable)),
+const prefixNamespace = (namespace: KVNamespace, prefix: string): KVNamespace => {
+  const scope = (key: string | Array<string>) =>
+    Array.isArray(key) ? key.map((name) => prefix + name) : prefix + key;
+  const unscope = (result: unknown) =>
+    result instanceof Map
+      ? new Map(Array.from(result, ([name, value]) => [String(name).slice(prefix.length), value]))
+      : result;
 
-  getJSON: <T>(key: string, options?: Omit<GetOptions, 'type'>) =>
-    pipe(getJSONFromNamespace<T>(namespace, key, options), Effect.map(Option.fromNullable)),
+  return {
+    get: (key: string | Array<string>, options?: unknown) =>
+      namespace.get(scope(key) as string, options as 'text').then(unscope),
+    getWithMetadata: (key: string | Array<string>, options?: unknown) =>
+      namespace.getWithMetadata(scope(key) as string, options as 'text').then(unscope),
+    put: (key: string, value: KVValue, options?: PutOptions) =>
+      namespace.put(prefix + key, value, options),
+    delete: (key: string) => namespace.delete(prefix + key),
+    list: async (options?: ListOptions) => {
+      const result = await namespace.list({ ...options, prefix: prefix + (options?.prefix ?? '') });
+      return {
+        ...result,
+        keys: result.keys.map((key) => ({ ...key, name: key.name.slice(prefix.length) })),
+      };
+    },
+  } as unknown as KVNamespace;
+};
+
+/**
+ * Implementation of KVService interface
+ * Every call to the namespace runs under the configured retry and timeout policy and is
+ * traced in a span
+ */
+const makeKVService = (
+  namespace: KVNamespace,
+  config: KVConfigOptions = {},
+  prefix = '',
+  root: KVNamespace = namespace
+): KVService => {
+  const traced = <A>(
+    operation: KVOperation,
+    details: KVSpanDetails,
+    measure?: (result: A) => KVOutcome
+  ) => instrument<A>(operation, prefix, config.traceKeys ?? 'keep', details, measure);
 
-  getArrayBuffer: (key, options) =>
-    pipe(getArrayBufferFromNamespace(namespace, key, options), Effect.map(Option.fromNullable)),
+  const list: KVService['list'] = (options) =>
+    pipe(
+      listFromNamespace(namespace, options),
+      withPolicy(config, 'list'),
+      traced('list', {}, (result) => ({ keys: result.keys.length }))
+    );
 
-  getStream: (key, options) =>
-    pipe(getStreamFromNamespace(namespace, key, options), Effect.map(Option.fromNullable)),
+  const read = <A>(
+    key: string,
+    valueType: string,
+    options: Omit<GetOptions, 'type'> | undefined,
+    effect: Effect.Effect<A, KVError>
+  ) =>
+    pipe(
+      effect,
+      withPolicy(config, 'get', key),
+      traced<A>('get', { key, valueType, cacheTtl: options?.cacheTtl }, (result) => {
+        const value = Option.isOption(result)
+          ? Option.getOrNull(Option.map(result, (entry) => (entry as { value: unknown }).value))
+          : result;
+        return value === null
+          ? { misses: 1 }
+          : { hits: 1, bytes: valueType === 'json' ? undefined : byteSize(value) };
+      })
+    );
 
-  put: (key, value, options) => putToNamespace(namespace, key, value, options),
+  const get = <T extends GetType | undefined = undefined>(
+    key: string,
+    options?: TypedGetOptions<T>
+  ) => read(key, options?.type ?? 'text', options, getFromNamespace(namespace, key, options));
 
-  putJSON: <T>(key: string, value: T, options?: PutOptions) =>
+  // Writes without the caller checks, for the markers this service records itself
+  const write = (key: string, value: KVValue, options?: PutOptions) =>
     pipe(
-      Effect.try(() => JSON.stringify(value)),
-      Effect.mapError((cause) => new KVPutError({ key, cause })),
-      Effect.flatMap((json) => putToNamespace(namespace, key, json, options))
-    ),
+      putToNamespace(namespace, key, value, options),
+      // A stream is consumed by the first attempt and cannot be replayed
+      withPolicy(config, 'put', key, !(value instanceof ReadableStream)),
+      traced('put', {
+        key,
+        valueType:
+          typeof value === 'string'
+            ? 'text'
+            : value instanceof ReadableStream
+              ? 'stream'
+              : 'arrayBuffer',
+        bytes: byteSize(value),
+      })
+    );
+
+  const put = (key: string, value: KVValue, options?: PutOptions) =>
+    Effect.zipRight(
+      checkMetadata(key, options?.metadata, STORAGE_MARKERS),
+      write(key, value, options)
+    );
 
-  delete: (key) => deleteFromNamespace(namespace, key),
+  const getMany = (keys: Iterable<string>, options?: Omit<GetOptions, 'type'> & BatchOptions) =>
+    Effect.gen(function* () {
+      const getOptions = { cacheTtl: options?.cacheTtl };
+      const concurrency = options?.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+      const batches = Arr.chunksOf(Array.from(new Set(keys)), BULK_GET_LIMIT);
 
-  list: (options) => listFromNamespace(namespace, options),
+      // Bulk reads first; keys the binding cannot serve in bulk are read one by one
+      const bulk = yield* forEachKey(
+        'get',
+        batches,
+        ([first]) => first!,
+        (batch) =>
+          pipe(
+            getBulkFromNamespace(namespace, batch, getOptions),
+            withPolicy(config, 'get'),
+            traced('get', { valueType: 'text', cacheTtl: getOptions.cacheTtl }, (result) => {
+              const found = Array.from(result.values()).filter((value) => value !== null).length;
+              return { keys: batch.length, hits: found, misses: result.size - found };
+            }),
+            // A timeout also fails every key of the batch
+            Effect.mapError((error) =>
+              error._tag === 'KVBatchError'
+                ? error
+                : new KVBatchError({
+                    operation: 'get',
+                    failures: batch.map((key) => ({ key, error })),
+                  })
+            )
+          ),
+        concurrency
+      );
+      const values = new Map<string, Option.Option<string>>();
+      bulk.forEach((result) =>
+        result.forEach((value, key) => values.set(key, Option.fromNullable(value)))
+      );
+      const remaining = batches.flat().filter((key) => !values.has(key));
+      const fetched = yield* forEachKey(
+        'get',
+        remaining,
+        (key) => key,
+        (key) => Effect.map(get(key, getOptions), (value) => [key, value] as const),
+        concurrency
+      );
+      fetched.forEach(([key, value]) => values.set(key, Option.fromNullable(value)));
+      // Keep the order in which the keys were requested
+      return new Map(
+        batches.flat().map((key) => [key, values.get(key) ?? Option.none()] as const)
+      ) as ReadonlyMap<string, Option.Option<string>>;
+    });
 
-  getOrFail: (key, options) =>
+  const deleteKey = (key: string) =>
     pipe(
-      getFromNamespace(namespace, key, options),
-      Effect.flatMap((value) =>
-        value === null
-          ? Effect.fail(new KeyNotFoundError({ key }) as KVError)
-          : Effect.succeed(value)
-      )
-    ) as Effect.Effect<string, KVError>,
-
-  getOrElse: (key, defaultValue, options) =>
+      deleteFromNamespace(namespace, key),
+      withPolicy(config, 'delete', key),
+      traced('delete', { key })
+    );
+
+  const chunkLayout = (key: string) =>
+    pipe(readChunkLayout(namespace, key), withPolicy(config, 'get', key));
+
+  // The manifest goes first so readers never follow it to chunks that are gone
+  const del = (key: string) =>
+    Effect.flatMap(chunkLayout(key), (layout) =>
+      Effect.forEach([key, ...(layout === undefined ? [] : chunkKeysOf(key, layout))], deleteKey, {
+        discard: true,
+      })
+    );
+
+  const putChunked = (
+    key: string,
+    value: string | ArrayBuffer | ReadableStream,
+    options?: ChunkedPutOptions
+  ) =>
     pipe(
-      getFromNamespace(namespace, key, options),
-      Effect.map((value) => (value === null ? defaultValue : value))
-    ),
-});
+      checkMetadata(key, options?.metadata, STORAGE_MARKERS),
+      Effect.zipRight(chunkLayout(key)),
+      Effect.flatMap((previous) => writeChunked(write, deleteKey, key, value, previous, options))
+    );
+
+  return deriveKVService(
+    {
+      get: (key, options) => pipe(get(key, options), Effect.map(Option.fromNullable)),
+
+      getJSON: <T>(key: string, options?: Omit<GetOptions, 'type'>) =>
+        Effect.map(
+          read(key, 'json', options, getJSONFromNamespace<T>(namespace, key, options)),
+          Option.fromNullable
+        ),
+
+      getArrayBuffer: (key, options) =>
+        Effect.map(
+          read(key, 'arrayBuffer', options, getArrayBufferFromNamespace(namespace, key, options)),
+          Option.fromNullable
+        ),
+
+      getStream: (key, options) =>
+        Effect.map(
+          read(key, 'stream', options, getStreamFromNamespace(namespace, key, options)),
+          Option.fromNullable
+        ),
+
+      getWithMetadata: <M>(key: string, options?: Omit<GetOptions, 'type'>) =>
+        read(
+          key,
+          'text',
+          options,
+          getWithMetadataFromNamespace<string, M>(namespace, key, 'text', options)
+        ),
+
+      getJSONWithMetadata: <T, M>(key: string, options?: Omit<GetOptions, 'type'>) =>
+        read(
+          key,
+          'json',
+          options,
+          getWithMetadataFromNamespace<T, M>(namespace, key, 'json', options)
+        ),
+
+      getArrayBufferWithMetadata: <M>(key: string, options?: Omit<GetOptions, 'type'>) =>
+        read(
+          key,
+          'arrayBuffer',
+          options,
+          getWithMetadataFromNamespace<ArrayBuffer, M>(namespace, key, 'arrayBuffer', options)
+        ),
+
+      getStreamWithMetadata: <M>(key: string, options?: Omit<GetOptions, 'type'>) =>
+        read(
+          key,
+          'stream',
+          options,
+          getWithMetadataFromNamespace<ReadableStream, M>(namespace, key, 'stream', options)
+        ),
+
+      put,
+
+      putChunked,
+
+      delete: del,
+
+      getMany,
+
+      list,
+
+      scoped: (scope) =>
+        makeKVService(prefixNamespace(namespace, scope), config, prefix + scope, root),
+    },
+    { root, prefix }
+  );
+};
+
+/**
+ * Helper to build a KVService using the KVConfig policy in context
+ */
+const makeKVServiceWithConfig = (namespace: KVNamespace): Effect.Effect<KVService> =>
+  Effect.map(KVConfig, (config) => makeKVService(namespace, config));
+
+/**
+ * Creates a Layer that reads the KVNamespace from a binding tag in context
+ * Use this with KV.Tag(...) to provide additional namespaces
+ * @param binding - Context tag holding the KVNamespace
+ * @param tag - KV tag to provide (defaults to KV)
+ * @example
+ * ```typescript
+ * class SessionsBinding extends Context.Tag('SessionsBinding')<SessionsBinding, KVNamespace>() {}
+ * const Sessions = KV.Tag('Sessions')
+ * const SessionsLive = layerFromBinding(SessionsBinding, Sessions)
+ * ```
+ */
+export const layerFromBinding: {
+  <BindingId>(
+    binding: Context.Tag<BindingId, KVNamespace>
+  ): Layer.Layer<'effect-kv/KV', never, BindingId>;
+  <BindingId, Id extends string>(
+    binding: Context.Tag<BindingId, KVNamespace>,
+    tag: Context.Tag<Id, KVService>
+  ): Layer.Layer<Id, never, BindingId>;
+} = <BindingId, Id extends string>(
+  binding: Context.Tag<BindingId, KVNamespace>,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id, never, BindingId> =>
+  Layer.effect(tag, Effect.flatMap(binding, makeKVServiceWithConfig));
 
 /**
  * Live Layer implementation using a real KVNamespace
  * Expects KVNamespaceBinding to be provided in context
  */
-export const KVLive = Layer.effect(
-  KV,
-  Effect.gen(function* () {
-    const namespace = yield* KVNamespaceBinding;
-    return makeKVService(namespace);
-  })
-);
+export const KVLive = layerFromBinding(KVNamespaceBinding);
 
 /**
  * Creates a Layer from a direct KVNamespace binding
  * Use this when you have a direct reference to a KVNamespace (e.g., from env)
  * @param namespace - The KVNamespace to wrap
+ * @param tag - KV tag to provide (defaults to KV)
+ * @example
+ * ```typescript
+ * const Sessions = KV.Tag('Sessions')
+ * const layer = Layer.mergeAll(
+ *   layerFromNamespace(env.CACHE),
+ *   layerFromNamespace(env.SESSIONS, Sessions)
+ * )
+ * ```
  */
-export const layerFromNamespace = (namespace: KVNamespace) =>
-  Layer.succeed(KV, makeKVService(namespace));
+export const layerFromNamespace: {
+  (namespace: KVNamespace): Layer.Layer<'effect-kv/KV'>;
+  <Id extends string>(namespace: KVNamespace, tag: Context.Tag<Id, KVService>): Layer.Layer<Id>;
+} = <Id extends string>(
+  namespace: KVNamespace,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id> => Layer.effect(tag, makeKVServiceWithConfig(namespace));
 
 /**
  * Test Layer that uses a mock KVNamespace
  * Useful for testing without actual Cloudflare bindings
+ * @param mockNamespace - The mock KVNamespace to wrap
+ * @param tag - KV tag to provide (defaults to KV)
+ */
+export const KVTest: {
+  (mockNamespace: KVNamespace): Layer.Layer<'effect-kv/KV'>;
+  <Id extends string>(mockNamespace: KVNamespace, tag: Context.Tag<Id, KVService>): Layer.Layer<Id>;
+} = <Id extends string>(
+  mockNamespace: KVNamespace,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id> => Layer.effect(tag, makeKVServiceWithConfig(mockNamespace));
+
+/**
+ * Creates a Layer backed by a fresh in-memory KVNamespace
+ * @param tag - KV tag to provide (defaults to KV)
+ */
+export const layerMemory: {
+  (): Layer.Layer<'effect-kv/KV'>;
+  <Id extends string>(tag: Context.Tag<Id, KVService>): Layer.Layer<Id>;
+} = <Id extends string>(
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Layer.Layer<Id> =>
+  Layer.effect(tag, Effect.flatMap(makeMemoryNamespace, makeKVServiceWithConfig));
+
+/**
+ * Layer backed by a fresh in-memory KVNamespace
+ * Behaves like Cloudflare KV (ordering, cursors, limits, metadata and expiry) and
+ * reads time from Effect's Clock, so it can be driven by TestClock
  */
-export const KVTest = (mockNamespace: KVNamespace) =>
-  Layer.succeed(KV, makeKVService(mockNamespace));
+export const KVMemory = layerMemory();
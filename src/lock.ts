@@ -0,0 +1,184 @@
+import { Clock, Context, Duration, Effect, Option, pipe, Ref, type Scope } from 'effect';
+import { uncached } from './cache.js';
+import { KVLockError, type KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+
+/**
+ * Options for acquiring a lock
+ */
+export interface LockOptions {
+  /**
+   * How long the lease lasts unless renewed (rounded up to whole seconds, minimum 60 seconds,
+   * the shortest expiration KV supports)
+   */
+  readonly ttl: Duration.DurationInput;
+
+  /**
+   * How often the lease is renewed while the scope is open (default a third of the ttl)
+   */
+  readonly renewEvery?: Duration.DurationInput;
+}
+
+/**
+ * A lease on a lock, held until the scope it was acquired in closes
+ */
+export interface Lease {
+  /**
+   * Name of the lock
+   */
+  readonly name: string;
+
+  /**
+   * Token identifying this owner
+   */
+  readonly token: string;
+
+  /**
+   * Whether the lease is still believed held: false once it has expired without a
+   * successful renewal or another owner has been seen holding the lock
+   */
+  readonly held: Effect.Effect<boolean>;
+}
+
+/**
+ * Record stored under a lock's key
+ */
+interface LockRecord {
+  readonly token: string;
+  readonly expiresAt: number;
+}
+
+/**
+ * Prefix of the keys holding locks
+ */
+const LOCK_PREFIX = 'lock:';
+
+/**
+ * Acquires a lock on a KVService for the lifetime of the current scope
+ * The owner token is written with an expiration, read back to verify ownership and renewed
+ * in a background fiber while the scope is open; closing the scope deletes the lock only if
+ * it is still held by this owner. KV has no atomic operations and is eventually consistent,
+ * so two owners in different locations can both acquire the same lock: use it to avoid
+ * duplicate work, not where mutual exclusion must be guaranteed.
+ * @param kv - The service to store the lock in
+ * @param name - Name of the lock
+ * @param options - Lease ttl and renewal interval
+ * @returns Scoped Effect resolving to the lease, or failing with KVLockError if the lock is
+ * held or was taken while being acquired
+ */
+export const acquireLock = (
+  kv: KVService,
+  name: string,
+  options: LockOptions
+): Effect.Effect<Lease, KVError | KVLockError, Scope.Scope> =>
+  Effect.gen(function* () {
+    const key = LOCK_PREFIX + name;
+    const ttlSeconds = Math.max(60, Math.ceil(Duration.toSeconds(options.ttl)));
+    const renewEvery = options.renewEvery ?? Duration.seconds(ttlSeconds / 3);
+    const token = crypto.randomUUID();
+    const expiresAt = yield* Ref.make(0);
+
+    // Records past their expiresAt are free even if KV has not removed them yet
+    const owner = Effect.flatMap(Clock.currentTimeMillis, (now) =>
+      Effect.map(
+        uncached(kv.getJSON<LockRecord>(key)),
+        Option.flatMap((record) =>
+          record.expiresAt > now ? Option.some(record.token) : Option.none()
+        )
+      )
+    );
+
+    const write = Effect.gen(function* () {
+      const until = (yield* Clock.currentTimeMillis) + ttlSeconds * 1000;
+      yield* uncached(kv.putJSON(key, { token, expiresAt: until }, { expirationTtl: ttlSeconds }));
+      yield* Ref.set(expiresAt, until);
+    });
+
+    const renew = Effect.flatMap(owner, (current) =>
+      Option.contains(current, token)
+        ? Effect.as(write, true)
+        : Effect.as(Ref.set(expiresAt, 0), false)
+    );
+
+    yield* Effect.acquireRelease(
+      Effect.gen(function* () {
+        if (Option.isSome(yield* owner)) {
+          return yield* Effect.fail(new KVLockError({ lock: name, reason: 'held' }));
+        }
+        yield* write;
+        if (!Option.contains(yield* owner, token)) {
+          return yield* Effect.fail(new KVLockError({ lock: name, reason: 'lost' }));
+        }
+      }),
+      () =>
+        pipe(
+          owner,
+          Effect.flatMap((current) =>
+            Option.contains(current, token) ? uncached(kv.delete(key)) : Effect.void
+          ),
+          Effect.ignoreLogged
+        )
+    );
+
+    // Forked after the release is registered, so it is interrupted before the lock is deleted
+    yield* pipe(
+      Effect.sleep(renewEvery),
+      Effect.zipRight(
+        Effect.catchAll(renew, (error) =>
+          Effect.as(Effect.logWarning(`Failed to renew lock "${name}"`, error), true)
+        )
+      ),
+      Effect.repeat({ while: (stillHeld) => stillHeld }),
+      Effect.forkScoped
+    );
+
+    return {
+      name,
+      token,
+      held: Effect.zipWith(
+        Ref.get(expiresAt),
+        Clock.currentTimeMillis,
+        (until, now) => now < until
+      ),
+    };
+  });
+
+/**
+ * Distributed, best-effort locks stored in KV
+ * @example
+ * ```typescript
+ * const job = Effect.scoped(
+ *   Effect.gen(function* () {
+ *     yield* KVLock.acquire('cron:daily-report', { ttl: '5 minutes' });
+ *     yield* generateReport;
+ *   })
+ * ).pipe(Effect.catchTag('KVLockError', () => Effect.logInfo('Already running elsewhere')));
+ * ```
+ */
+export const KVLock: {
+  /**
+   * Acquires a lock for the lifetime of the current scope
+   * @param name - Name of the lock
+   * @param options - Lease ttl and renewal interval
+   * @param tag - KV tag of the namespace to use (defaults to KV)
+   * @returns Scoped Effect resolving to the lease, or failing with KVLockError
+   */
+  readonly acquire: {
+    (
+      name: string,
+      options: LockOptions
+    ): Effect.Effect<Lease, KVError | KVLockError, 'effect-kv/KV' | Scope.Scope>;
+    <Id extends string>(
+      name: string,
+      options: LockOptions,
+      tag: Context.Tag<Id, KVService>
+    ): Effect.Effect<Lease, KVError | KVLockError, Id | Scope.Scope>;
+  };
+} = {
+  acquire: <Id extends string>(
+    name: string,
+    options: LockOptions,
+    tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+  ): Effect.Effect<Lease, KVError | KVLockError, Id | Scope.Scope> =>
+    Effect.flatMap(tag, (kv) => acquireLock(kv, name, options)),
+};
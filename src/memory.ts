@@ -0,0 +1,378 @@
+import { Effect } from 'effect';
+import type {
+  KVNamespace,
+  KVNamespaceGetWithMetadataResult,
+  KVNamespaceListKey,
+  KVNamespaceListOptions,
+  KVNamespaceListResult,
+  KVNamespacePutOptions,
+} from '@cloudflare/workers-types';
+import { compareKeys } from './portable.js';
+
+/**
+ * Maximum UTF-8 encoded length of a key, in bytes
+ */
+const MAX_KEY_SIZE = 512;
+
+/**
+ * Maximum size of a stored value, in bytes (25 MiB)
+ */
+const MAX_VALUE_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Maximum size of the JSON-serialized metadata, in bytes
+ */
+const MAX_METADATA_SIZE = 1024;
+
+/**
+ * Maximum (and default) number of keys returned by a single list call
+ */
+const MAX_LIST_LIMIT = 1000;
+
+/**
+ * Maximum number of keys accepted by a single multi-key get
+ */
+const MAX_BULK_KEYS = 100;
+
+/**
+ * Minimum expiration TTL and expiration offset, in seconds
+ */
+const MIN_EXPIRATION_TTL = 60;
+
+/**
+ * Minimum cacheTtl accepted by get operations, in seconds
+ */
+const MIN_CACHE_TTL = 30;
+
+type ValueType = 'text' | 'json' | 'arrayBuffer' | 'stream';
+
+/**
+ * A single stored entry. Values are kept as raw bytes so every value type round-trips, and
+ * metadata as serialized JSON so neither writers nor readers share objects with the store.
+ */
+interface MemoryEntry {
+  readonly value: Uint8Array;
+  readonly metadata: string | null;
+  readonly expiration?: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Helper to give every read its own copy of the stored metadata
+ */
+const parseMetadata = (metadata: string | null): unknown =>
+  metadata === null ? null : JSON.parse(metadata);
+
+/**
+ * Helper to validate a key the same way the KV runtime does
+ */
+const validateKey = (operation: string, key: string): void => {
+  if (key === '') {
+    throw new TypeError('Key names must not be empty');
+  }
+  if (key === '.' || key === '..') {
+    throw new TypeError(`Illegal key name "${key}". Please use a different name.`);
+  }
+  const size = encoder.encode(key).byteLength;
+  if (size > MAX_KEY_SIZE) {
+    throw new Error(
+      `KV ${operation} failed: 414 UTF-8 encoded length of ${size} exceeds key length limit of ${MAX_KEY_SIZE}.`
+    );
+  }
+};
+
+/**
+ * Helper to normalize the type/options argument of get and getWithMetadata
+ */
+const parseGetOptions = (
+  options: ValueType | Partial<{ type: ValueType; cacheTtl: number }> | undefined
+): ValueType => {
+  const { type = 'text', cacheTtl } =
+    typeof options === 'string' ? { type: options } : (options ?? {});
+  if (cacheTtl !== undefined && (!Number.isInteger(cacheTtl) || cacheTtl < MIN_CACHE_TTL)) {
+    throw new Error(
+      `KV GET failed: 400 Invalid cache_ttl of ${cacheTtl}. Cache TTL must be at least ${MIN_CACHE_TTL}.`
+    );
+  }
+  if (type !== 'text' && type !== 'json' && type !== 'arrayBuffer' && type !== 'stream') {
+    throw new TypeError(
+      `Unknown response type. Possible types are "text", "arrayBuffer", "json", and "stream".`
+    );
+  }
+  return type;
+};
+
+/**
+ * Helper to validate the keys and value type of a multi-key get
+ */
+const validateBulkGet = (keys: ReadonlyArray<string>, type: ValueType): void => {
+  if (keys.length === 0 || keys.length > MAX_BULK_KEYS) {
+    throw new Error(
+      `KV GET_BULK failed: 400 You must request between 1 and ${MAX_BULK_KEYS} keys.`
+    );
+  }
+  if (type !== 'text' && type !== 'json') {
+    throw new TypeError(`Multi-key get only supports the "text" and "json" types.`);
+  }
+  keys.forEach((key) => validateKey('GET_BULK', key));
+};
+
+/**
+ * Helper to convert stored bytes into the requested value type
+ */
+const decodeValue = (bytes: Uint8Array, type: ValueType): unknown => {
+  switch (type) {
+    case 'text':
+      return decoder.decode(bytes);
+    case 'json':
+      return JSON.parse(decoder.decode(bytes));
+    case 'arrayBuffer':
+      return bytes.slice().buffer;
+    case 'stream':
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes.slice());
+          controller.close();
+        },
+      });
+  }
+};
+
+/**
+ * Helper to read any supported put value into a standalone byte array
+ */
+const readValue = async (
+  value: string | ArrayBuffer | ArrayBufferView | ReadableStream
+): Promise<Uint8Array> => {
+  if (typeof value === 'string') {
+    return encoder.encode(value);
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value.slice(0));
+  }
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(
+      value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)
+    );
+  }
+  if (value instanceof ReadableStream) {
+    const chunks: Array<Uint8Array> = [];
+    const reader = value.getReader();
+    for (;;) {
+      const { done, value: chunk } = await reader.read();
+      if (done) break;
+      chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : new Uint8Array(chunk));
+    }
+    const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return bytes;
+  }
+  throw new TypeError(
+    'KV put() accepts only strings, ArrayBuffers, ArrayBufferViews, and ReadableStreams as values.'
+  );
+};
+
+/**
+ * Helper to resolve the absolute expiration (seconds since epoch) of a put
+ */
+const resolveExpiration = (
+  nowSeconds: number,
+  options: KVNamespacePutOptions | undefined
+): number | undefined => {
+  if (options?.expirationTtl !== undefined) {
+    const ttl = options.expirationTtl;
+    if (!Number.isFinite(ttl) || ttl < MIN_EXPIRATION_TTL) {
+      throw new Error(
+        `KV PUT failed: 400 Invalid expiration_ttl of ${ttl}. Expiration TTL must be at least ${MIN_EXPIRATION_TTL}.`
+      );
+    }
+    return Math.floor(nowSeconds + ttl);
+  }
+  if (options?.expiration !== undefined) {
+    const expiration = options.expiration;
+    if (!Number.isFinite(expiration) || expiration < nowSeconds + MIN_EXPIRATION_TTL) {
+      throw new Error(
+        `KV PUT failed: 400 Invalid expiration of ${expiration}. Expiration times must be at least ${MIN_EXPIRATION_TTL} seconds in the future.`
+      );
+    }
+    return Math.floor(expiration);
+  }
+  return undefined;
+};
+
+/**
+ * Helper to encode and decode opaque list cursors
+ */
+const encodeCursor = (lastKey: string): string =>
+  btoa(String.fromCharCode(...encoder.encode(lastKey)));
+
+const decodeCursor = (cursor: string): string => {
+  try {
+    return decoder.decode(Uint8Array.from(atob(cursor), (char) => char.charCodeAt(0)));
+  } catch {
+    throw new Error(`KV LIST failed: 400 Invalid cursor "${cursor}".`);
+  }
+};
+
+/**
+ * Creates an in-memory KVNamespace that follows the Cloudflare KV contract
+ *
+ * - Keys are listed in lexicographic (UTF-8 byte) order with opaque cursor pagination
+ * - `list` returns at most 1000 keys per page and includes stored expiration and metadata
+ * - `expiration`/`expirationTtl` are enforced against Effect's `Clock`, so `TestClock`
+ *   can be used to advance time past a key's expiry
+ * - Values may be written and read as text, JSON, ArrayBuffer or ReadableStream
+ * - `get` and `getWithMetadata` accept up to 100 keys at once for text and JSON reads
+ *
+ * The Clock is captured when the namespace is created.
+ * @returns Effect that resolves to a fresh, empty KVNamespace
+ * @example
+ * ```typescript
+ * const program = Effect.gen(function* () {
+ *   const namespace = yield* makeMemoryNamespace;
+ *   yield* Effect.promise(() => namespace.put('key', 'value', { expirationTtl: 60 }));
+ *   yield* TestClock.adjust('61 seconds');
+ *   return yield* Effect.promise(() => namespace.get('key')); // null
+ * });
+ * ```
+ */
+export const makeMemoryNamespace: Effect.Effect<KVNamespace> = Effect.map(Effect.clock, (clock) => {
+  const store = new Map<string, MemoryEntry>();
+
+  const nowSeconds = () => clock.unsafeCurrentTimeMillis() / 1000;
+
+  const isExpired = (entry: MemoryEntry) =>
+    entry.expiration !== undefined && entry.expiration <= nowSeconds();
+
+  const lookup = (key: string): MemoryEntry | undefined => {
+    const entry = store.get(key);
+    if (entry !== undefined && isExpired(entry)) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const readEntry = (key: string, type: ValueType) => {
+    const entry = lookup(key);
+    return entry === undefined ? null : decodeValue(entry.value, type);
+  };
+
+  const readEntryWithMetadata = (
+    key: string,
+    type: ValueType
+  ): KVNamespaceGetWithMetadataResult<unknown, unknown> => {
+    const entry = lookup(key);
+    return entry === undefined
+      ? { value: null, metadata: null, cacheStatus: null }
+      : {
+          value: decodeValue(entry.value, type),
+          metadata: parseMetadata(entry.metadata),
+          cacheStatus: null,
+        };
+  };
+
+  const get = async (
+    key: string | Array<string>,
+    options?: ValueType | Partial<{ type: ValueType; cacheTtl: number }>
+  ) => {
+    const type = parseGetOptions(options);
+    if (Array.isArray(key)) {
+      validateBulkGet(key, type);
+      return new Map(key.map((name) => [name, readEntry(name, type)]));
+    }
+    validateKey('GET', key);
+    return readEntry(key, type);
+  };
+
+  const getWithMetadata = async (
+    key: string | Array<string>,
+    options?: ValueType | Partial<{ type: ValueType; cacheTtl: number }>
+  ) => {
+    const type = parseGetOptions(options);
+    if (Array.isArray(key)) {
+      validateBulkGet(key, type);
+      return new Map(key.map((name) => [name, readEntryWithMetadata(name, type)]));
+    }
+    validateKey('GET', key);
+    return readEntryWithMetadata(key, type);
+  };
+
+  const put = async (
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView | ReadableStream,
+    options?: KVNamespacePutOptions
+  ): Promise<void> => {
+    validateKey('PUT', key);
+    const expiration = resolveExpiration(nowSeconds(), options);
+    const metadata =
+      options?.metadata === undefined || options.metadata === null
+        ? null
+        : JSON.stringify(options.metadata);
+    if (metadata !== null) {
+      const size = encoder.encode(metadata).byteLength;
+      if (size > MAX_METADATA_SIZE) {
+        throw new Error(
+          `KV PUT failed: 413 Metadata length of ${size} exceeds limit of ${MAX_METADATA_SIZE}.`
+        );
+      }
+    }
+    const bytes = await readValue(value);
+    if (bytes.byteLength > MAX_VALUE_SIZE) {
+      throw new Error(
+        `KV PUT failed: 413 Value length of ${bytes.byteLength} exceeds limit of ${MAX_VALUE_SIZE}.`
+      );
+    }
+    store.set(key, { value: bytes, metadata, expiration });
+  };
+
+  const del = async (key: string): Promise<void> => {
+    validateKey('DELETE', key);
+    store.delete(key);
+  };
+
+  const list = async (
+    options?: KVNamespaceListOptions
+  ): Promise<KVNamespaceListResult<unknown, string>> => {
+    const limit = options?.limit ?? MAX_LIST_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      throw new Error(
+        `KV LIST failed: 400 Invalid key_count_limit of ${limit}. Please specify an integer between 1 and ${MAX_LIST_LIMIT}.`
+      );
+    }
+    const prefix = options?.prefix ?? '';
+    const after = options?.cursor ? decodeCursor(options.cursor) : undefined;
+
+    const names = Array.from(store.keys())
+      .filter((name) => name.startsWith(prefix) && lookup(name) !== undefined)
+      .sort(compareKeys)
+      .filter((name) => after === undefined || compareKeys(name, after) > 0);
+
+    const page = names.slice(0, limit);
+    const keys = page.map((name): KVNamespaceListKey<unknown, string> => {
+      const entry = store.get(name)!;
+      return {
+        name,
+        ...(entry.expiration !== undefined ? { expiration: entry.expiration } : {}),
+        ...(entry.metadata !== null ? { metadata: parseMetadata(entry.metadata) } : {}),
+      };
+    });
+
+    return names.length > limit
+      ? {
+          keys,
+          list_complete: false,
+          cursor: encodeCursor(page[page.length - 1]!),
+          cacheStatus: null,
+        }
+      : { keys, list_complete: true, cacheStatus: null };
+  };
+
+  return { get, getWithMetadata, put, delete: del, list } as unknown as KVNamespace;
+});
@@ -0,0 +1,269 @@
+import { Clock, Context, Effect, Option, pipe, Stream } from 'effect';
+import { DEFAULT_BATCH_CONCURRENCY } from './batch.js';
+import { keyLocationOf } from './cache.js';
+import { chunkLayoutOf, withoutChunkKeys } from './chunked.js';
+import { compressionOf } from './compression.js';
+import type { KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { carriedExpiration, compareKeys, textOrBytes, userMetadata } from './portable.js';
+import type { ListKey } from './types.js';
+
+/**
+ * An entry being migrated, as passed to and returned from the transform
+ */
+export interface MigrationEntry {
+  readonly key: string;
+
+  /**
+   * The decoded value: text when it is valid UTF-8, bytes otherwise
+   */
+  readonly value: string | ArrayBuffer;
+  readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for a migration
+ */
+export interface MigrateOptions<E = never, R = never> {
+  /**
+   * Only migrate source keys starting with this prefix
+   */
+  readonly prefix?: string;
+
+  /**
+   * Maps each entry to the entry to write, or None to leave it out (default unchanged)
+   */
+  readonly transform?: (
+    entry: MigrationEntry
+  ) => Effect.Effect<Option.Option<MigrationEntry>, E, R>;
+
+  /**
+   * Run the transforms and report counts without writing or deleting anything
+   */
+  readonly dryRun?: boolean;
+
+  /**
+   * Delete each source key once its entry is written (default false); keys migrated onto
+   * themselves are kept
+   */
+  readonly deleteSource?: boolean;
+
+  /**
+   * Maximum number of entries migrated at once (default 10)
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Maximum number of keys per list call (KV default 1000)
+   */
+  readonly pageSize?: number;
+
+  /**
+   * Key in the target namespace where progress is saved; a later migration with the same
+   * key resumes after the last saved source key, and the key is deleted once the migration
+   * completes
+   */
+  readonly checkpoint?: string;
+
+  /**
+   * Number of source keys between checkpoints (default 100)
+   */
+  readonly checkpointEvery?: number;
+}
+
+/**
+ * Counts reported by a migration, including keys handled by earlier runs when resumed
+ */
+export interface MigrationResult {
+  /**
+   * Source keys read
+   */
+  readonly scanned: number;
+
+  /**
+   * Entries written to the target, or that would be in a dry run
+   */
+  readonly migrated: number;
+
+  /**
+   * Entries left out by the transform, expired or deleted since they were listed
+   */
+  readonly skipped: number;
+
+  /**
+   * Source keys deleted, or that would be in a dry run
+   */
+  readonly deleted: number;
+}
+
+/**
+ * Progress saved under a migration's checkpoint key
+ */
+interface MigrationCheckpoint extends MigrationResult {
+  readonly lastKey: string;
+}
+
+const DEFAULT_CHECKPOINT_EVERY = 100;
+
+/**
+ * Copies entries from one KVService to another, or within one
+ */
+const migrateBetween = <E, R>(
+  source: KVService,
+  target: KVService,
+  options: MigrateOptions<E, R>
+): Effect.Effect<MigrationResult, E | KVError, R> =>
+  Effect.gen(function* () {
+    const dryRun = options.dryRun ?? false;
+    const checkpoint = dryRun ? undefined : options.checkpoint;
+    const checkpointEvery = options.checkpointEvery ?? DEFAULT_CHECKPOINT_EVERY;
+    const resumed =
+      checkpoint === undefined
+        ? Option.none<MigrationCheckpoint>()
+        : yield* target.getJSON<MigrationCheckpoint>(checkpoint);
+    const after = Option.map(resumed, ({ lastKey }) => lastKey);
+    let progress: MigrationResult = Option.match(resumed, {
+      onNone: () => ({ scanned: 0, migrated: 0, skipped: 0, deleted: 0 }),
+      onSome: ({ lastKey: _, ...counts }) => counts,
+    });
+    // Tags and decorators over the same binding and scope write into the keys being listed
+    const from = keyLocationOf(source);
+    const to = keyLocationOf(target);
+    const sameNamespace = from.root === to.root && from.prefix === to.prefix;
+    // Keys written into the namespace being listed, which must not be migrated again
+    const written = new Set<string>();
+
+    const migrateKey = ({ name, expiration, metadata: listed }: ListKey) =>
+      Effect.gen(function* () {
+        const stored = yield* source.getArrayBufferWithMetadata(name);
+        if (Option.isNone(stored)) {
+          return 'skipped' as const;
+        }
+        const carried = carriedExpiration(
+          expiration,
+          Math.floor((yield* Clock.currentTimeMillis) / 1000)
+        );
+        if (Option.isNone(carried)) {
+          return 'skipped' as const;
+        }
+        const entry: MigrationEntry = {
+          key: name,
+          value: textOrBytes(stored.value.value),
+          metadata: userMetadata(stored.value.metadata),
+        };
+        const migrated =
+          options.transform === undefined ? Option.some(entry) : yield* options.transform(entry);
+        if (Option.isNone(migrated)) {
+          return 'skipped' as const;
+        }
+        const { key, value, metadata } = migrated.value;
+        const moved = options.deleteSource === true && (!sameNamespace || key !== name);
+        if (dryRun) {
+          return moved ? ('moved' as const) : ('migrated' as const);
+        }
+
+        if (sameNamespace) {
+          written.add(key);
+        }
+        // Large and compressed values stay chunked and compressed in the target; reads hide
+        // how a value is stored, so the listed metadata tells
+        const putOptions = {
+          metadata: userMetadata(metadata),
+          expiration: carried.value,
+          compression: compressionOf(listed),
+        };
+        const chunked = chunkLayoutOf(listed) !== undefined;
+        yield* chunked
+          ? target.putChunked(key, value, putOptions)
+          : target.put(key, value, putOptions);
+        if (moved) {
+          yield* source.delete(name);
+        }
+        return moved ? ('moved' as const) : ('migrated' as const);
+      });
+
+    // Outcomes arrive in list order, so a checkpoint never skips a key still being migrated
+    yield* pipe(
+      withoutChunkKeys(source.listAll({ prefix: options.prefix, pageSize: options.pageSize })),
+      Stream.filter(
+        ({ name }) =>
+          !written.has(name) &&
+          !(sameNamespace && name === checkpoint) &&
+          Option.match(after, {
+            onNone: () => true,
+            onSome: (lastKey) => compareKeys(name, lastKey) > 0,
+          })
+      ),
+      Stream.mapEffect(
+        (key) => Effect.map(migrateKey(key), (outcome) => [key.name, outcome] as const),
+        {
+          concurrency: options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+        }
+      ),
+      Stream.runForEach(([name, outcome]) => {
+        progress = {
+          scanned: progress.scanned + 1,
+          migrated: progress.migrated + (outcome === 'skipped' ? 0 : 1),
+          skipped: progress.skipped + (outcome === 'skipped' ? 1 : 0),
+          deleted: progress.deleted + (outcome === 'moved' ? 1 : 0),
+        };
+        return checkpoint !== undefined && progress.scanned % checkpointEvery === 0
+          ? target.putJSON(checkpoint, { ...progress, lastKey: name })
+          : Effect.void;
+      })
+    );
+
+    if (checkpoint !== undefined) {
+      yield* target.delete(checkpoint);
+    }
+    return progress;
+  });
+
+/**
+ * Migrates entries from one namespace to another, or within one, transforming them on the way
+ * Each source key is read with its metadata and passed to the transform, and the entry it
+ * returns is written to the target with the source key's remaining time to live. Values are
+ * passed decoded, and written compressed or chunked (with the default chunk size) when the
+ * source value was. Source and target are the same namespace when both store keys in the
+ * same binding under the same scope, even through different tags. Keys written into the
+ * namespace being read are not migrated again, but KV listings are eventually consistent:
+ * prefer transforms whose new keys fall outside `prefix`. With a checkpoint key, progress
+ * is saved every `checkpointEvery` source keys, so an interrupted migration can be run
+ * again to resume; up to `concurrency` keys after the checkpoint may be migrated twice.
+ * @param options - Prefix, transform, dry run, source deletion, concurrency and checkpoint
+ * @param from - KV tag of the namespace to read (defaults to KV)
+ * @param to - KV tag of the namespace to write (defaults to the source)
+ * @returns Effect resolving to the migration counts
+ * @example
+ * ```typescript
+ * const result = yield* migrate({
+ *   prefix: 'user:',
+ *   transform: (entry) =>
+ *     Effect.succeed(Option.some({ ...entry, key: entry.key.replace(/^user:/, 'users/') })),
+ *   deleteSource: true,
+ *   checkpoint: 'migration:users',
+ * });
+ * // { scanned: 120, migrated: 120, skipped: 0, deleted: 120 }
+ * ```
+ */
+export const migrate: {
+  <E = never, R = never>(
+    options?: MigrateOptions<E, R>
+  ): Effect.Effect<MigrationResult, E | KVError, R | 'effect-kv/KV'>;
+  <E = never, R = never, From extends string = never>(
+    options: MigrateOptions<E, R>,
+    from: Context.Tag<From, KVService>
+  ): Effect.Effect<MigrationResult, E | KVError, R | From>;
+  <E = never, R = never, From extends string = never, To extends string = never>(
+    options: MigrateOptions<E, R>,
+    from: Context.Tag<From, KVService>,
+    to: Context.Tag<To, KVService>
+  ): Effect.Effect<MigrationResult, E | KVError, R | From | To>;
+} = <E, R, From extends string, To extends string>(
+  options: MigrateOptions<E, R> = {},
+  from: Context.Tag<From, KVService> = KV as unknown as Context.Tag<From, KVService>,
+  to: Context.Tag<To, KVService> = from as unknown as Context.Tag<To, KVService>
+): Effect.Effect<MigrationResult, E | KVError, R | From | To> =>
+  Effect.flatMap(Effect.zip(from, to), ([source, target]) =>
+    migrateBetween(source, target, options)
+  );
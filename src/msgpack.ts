@@ -0,0 +1,323 @@
+/**
+ * MessagePack extension type of timestamps
+ */
+const TIMESTAMP_EXT = -1;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Helper to check for plain objects, which are encoded as maps
+ */
+const isPlainObject = (value: object): value is Record<string, unknown> => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Encodes a value as MessagePack
+ * Supports null, booleans, numbers, bigints (as 64-bit integers), strings, Uint8Array (as
+ * bin), Date (as the timestamp extension), arrays and plain objects. Integers wider than
+ * 32 bits are written as float64, so 64-bit integers always decode to bigints. Object
+ * properties that are undefined are left out, as with JSON.
+ * @internal
+ */
+export const encodeMessagePack = (value: unknown): Uint8Array => {
+  let buffer = new Uint8Array(256);
+  let view = new DataView(buffer.buffer);
+  let length = 0;
+
+  const reserve = (size: number) => {
+    if (length + size > buffer.length) {
+      const grown = new Uint8Array(Math.max(buffer.length * 2, length + size));
+      grown.set(buffer.subarray(0, length));
+      buffer = grown;
+      view = new DataView(buffer.buffer);
+    }
+    const at = length;
+    length += size;
+    return at;
+  };
+  // Each writer reserves before touching the buffer, which growing replaces
+  const fixed =
+    <A>(size: number, set: (view: DataView, at: number, value: A) => void) =>
+    (value: A) => {
+      const at = reserve(size);
+      set(view, at, value);
+    };
+  const byte = fixed<number>(1, (v, at, n) => v.setUint8(at, n));
+  const int8 = fixed<number>(1, (v, at, n) => v.setInt8(at, n));
+  const uint16 = fixed<number>(2, (v, at, n) => v.setUint16(at, n));
+  const int16 = fixed<number>(2, (v, at, n) => v.setInt16(at, n));
+  const uint32 = fixed<number>(4, (v, at, n) => v.setUint32(at, n));
+  const int32 = fixed<number>(4, (v, at, n) => v.setInt32(at, n));
+  const float64 = fixed<number>(8, (v, at, n) => v.setFloat64(at, n));
+  const uint64 = fixed<bigint>(8, (v, at, n) => v.setBigUint64(at, n));
+  const int64 = fixed<bigint>(8, (v, at, n) => v.setBigInt64(at, n));
+  const raw = (bytes: Uint8Array) => {
+    const at = reserve(bytes.length);
+    buffer.set(bytes, at);
+  };
+
+  // Writes the type and length of a str, bin, array or map that has no fixed-size form
+  const sized = (size: number, type8: number | undefined, type16: number, type32: number) => {
+    if (type8 !== undefined && size <= 0xff) {
+      byte(type8);
+      byte(size);
+    } else if (size <= 0xffff) {
+      byte(type16);
+      uint16(size);
+    } else {
+      byte(type32);
+      uint32(size);
+    }
+  };
+
+  const write = (v: unknown): void => {
+    if (v === null || v === undefined) {
+      byte(0xc0);
+    } else if (typeof v === 'boolean') {
+      byte(v ? 0xc3 : 0xc2);
+    } else if (typeof v === 'number') {
+      if (Number.isInteger(v) && v >= 0 && v <= 0xffffffff) {
+        if (v < 0x80) {
+          byte(v);
+        } else if (v <= 0xff) {
+          byte(0xcc);
+          byte(v);
+        } else if (v <= 0xffff) {
+          byte(0xcd);
+          uint16(v);
+        } else {
+          byte(0xce);
+          uint32(v);
+        }
+      } else if (Number.isInteger(v) && v < 0 && v >= -0x80000000) {
+        if (v >= -32) {
+          byte(v & 0xff);
+        } else if (v >= -0x80) {
+          byte(0xd0);
+          int8(v);
+        } else if (v >= -0x8000) {
+          byte(0xd1);
+          int16(v);
+        } else {
+          byte(0xd2);
+          int32(v);
+        }
+      } else {
+        byte(0xcb);
+        float64(v);
+      }
+    } else if (typeof v === 'bigint') {
+      if (v >= 0n && v <= 0xffffffffffffffffn) {
+        byte(0xcf);
+        uint64(v);
+      } else if (v < 0n && v >= -0x8000000000000000n) {
+        byte(0xd3);
+        int64(v);
+      } else {
+        throw new RangeError(`Cannot encode ${v} as a 64-bit integer`);
+      }
+    } else if (typeof v === 'string') {
+      const bytes = encoder.encode(v);
+      if (bytes.length < 32) {
+        byte(0xa0 | bytes.length);
+      } else {
+        sized(bytes.length, 0xd9, 0xda, 0xdb);
+      }
+      raw(bytes);
+    } else if (v instanceof Uint8Array) {
+      sized(v.length, 0xc4, 0xc5, 0xc6);
+      raw(v);
+    } else if (v instanceof Date) {
+      const millis = v.getTime();
+      if (Number.isNaN(millis)) {
+        throw new RangeError('Cannot encode an invalid Date');
+      }
+      // Timestamp 96: nanoseconds as uint32, then seconds as int64
+      const seconds = Math.floor(millis / 1000);
+      byte(0xc7);
+      byte(12);
+      int8(TIMESTAMP_EXT);
+      uint32((millis - seconds * 1000) * 1_000_000);
+      int64(BigInt(seconds));
+    } else if (Array.isArray(v)) {
+      if (v.length < 16) {
+        byte(0x90 | v.length);
+      } else {
+        sized(v.length, undefined, 0xdc, 0xdd);
+      }
+      v.forEach((item) => write(item));
+    } else if (typeof v === 'object' && isPlainObject(v)) {
+      const entries = Object.entries(v).filter(([, property]) => property !== undefined);
+      if (entries.length < 16) {
+        byte(0x80 | entries.length);
+      } else {
+        sized(entries.length, undefined, 0xde, 0xdf);
+      }
+      for (const [name, property] of entries) {
+        write(name);
+        write(property);
+      }
+    } else {
+      throw new TypeError(`Cannot encode a value of type ${typeof v} as MessagePack`);
+    }
+  };
+
+  write(value);
+  return buffer.slice(0, length);
+};
+
+/**
+ * Decodes MessagePack produced by encodeMessagePack or another encoder
+ * 64-bit integers decode to bigints and timestamps to Date; other extension types are
+ * rejected.
+ * @internal
+ */
+export const decodeMessagePack = (bytes: Uint8Array): unknown => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const take = (size: number) => {
+    if (offset + size > bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data');
+    }
+    const at = offset;
+    offset += size;
+    return at;
+  };
+  const uint8 = () => view.getUint8(take(1));
+  const uint16 = () => view.getUint16(take(2));
+  const uint32 = () => view.getUint32(take(4));
+
+  const str = (size: number) => decoder.decode(bytes.subarray(take(size), offset));
+  const bin = (size: number) => bytes.slice(take(size), offset);
+  const array = (size: number) => Array.from({ length: size }, () => read());
+  const map = (size: number) => {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < size; i++) {
+      const name = String(read());
+      // defineProperty, so a '__proto__' key cannot replace the prototype
+      Object.defineProperty(result, name, {
+        value: read(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  };
+  const ext = (size: number) => {
+    const type = view.getInt8(take(1));
+    const at = take(size);
+    if (type !== TIMESTAMP_EXT) {
+      throw new TypeError(`Unsupported MessagePack extension type ${type}`);
+    }
+    switch (size) {
+      case 4:
+        return new Date(view.getUint32(at) * 1000);
+      case 8: {
+        const high = view.getUint32(at);
+        const nanoseconds = high >>> 2;
+        const seconds = (high & 0x3) * 0x100000000 + view.getUint32(at + 4);
+        return new Date(seconds * 1000 + nanoseconds / 1_000_000);
+      }
+      case 12:
+        return new Date(Number(view.getBigInt64(at + 4)) * 1000 + view.getUint32(at) / 1_000_000);
+      default:
+        throw new RangeError(`Invalid MessagePack timestamp of ${size} bytes`);
+    }
+  };
+
+  const read = (): unknown => {
+    const type = uint8();
+    if (type <= 0x7f) {
+      return type;
+    }
+    if (type >= 0xe0) {
+      return type - 0x100;
+    }
+    if (type >= 0x80 && type <= 0x8f) {
+      return map(type & 0x0f);
+    }
+    if (type >= 0x90 && type <= 0x9f) {
+      return array(type & 0x0f);
+    }
+    if (type >= 0xa0 && type <= 0xbf) {
+      return str(type & 0x1f);
+    }
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return bin(uint8());
+      case 0xc5:
+        return bin(uint16());
+      case 0xc6:
+        return bin(uint32());
+      case 0xc7:
+        return ext(uint8());
+      case 0xc8:
+        return ext(uint16());
+      case 0xc9:
+        return ext(uint32());
+      case 0xca:
+        return view.getFloat32(take(4));
+      case 0xcb:
+        return view.getFloat64(take(8));
+      case 0xcc:
+        return uint8();
+      case 0xcd:
+        return uint16();
+      case 0xce:
+        return uint32();
+      case 0xcf:
+        return view.getBigUint64(take(8));
+      case 0xd0:
+        return view.getInt8(take(1));
+      case 0xd1:
+        return view.getInt16(take(2));
+      case 0xd2:
+        return view.getInt32(take(4));
+      case 0xd3:
+        return view.getBigInt64(take(8));
+      case 0xd4:
+        return ext(1);
+      case 0xd5:
+        return ext(2);
+      case 0xd6:
+        return ext(4);
+      case 0xd7:
+        return ext(8);
+      case 0xd8:
+        return ext(16);
+      case 0xd9:
+        return str(uint8());
+      case 0xda:
+        return str(uint16());
+      case 0xdb:
+        return str(uint32());
+      case 0xdc:
+        return array(uint16());
+      case 0xdd:
+        return array(uint32());
+      case 0xde:
+        return map(uint16());
+      case 0xdf:
+        return map(uint32());
+      default:
+        throw new TypeError(`Invalid MessagePack type byte 0x${type.toString(16)}`);
+    }
+  };
+
+  const value = read();
+  if (offset !== bytes.length) {
+    throw new RangeError('Unexpected data after the MessagePack value');
+  }
+  return value;
+};
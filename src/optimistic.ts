@@ -0,0 +1,95 @@
+import { Effect, Equal, Option, pipe, Schedule } from 'effect';
+import { uncached } from './cache.js';
+import { KVConflictError } from './errors.js';
+import type { PutOptions, ValueWithMetadata } from './types.js';
+
+/**
+ * Options for optimistic updates
+ */
+export interface UpdateOptions extends PutOptions {
+  /**
+   * Schedule of retries after a conflict (default: up to 5 retries with jittered exponential
+   * backoff from 20 milliseconds). Other failures are never retried.
+   */
+  readonly retry?: Schedule.Schedule<unknown, KVConflictError>;
+}
+
+/**
+ * Metadata key holding the token of the last update, kept apart from the `_version` of
+ * versioned stores
+ * @internal
+ */
+export const ETAG = '_etag';
+
+const DEFAULT_RETRY = pipe(
+  Schedule.exponential('20 millis'),
+  Schedule.jittered,
+  Schedule.intersect(Schedule.recurs(5))
+);
+
+/**
+ * Helper to read the update token recorded in a value's metadata
+ */
+const etagOf = (entry: Option.Option<ValueWithMetadata<unknown, unknown>>) =>
+  Option.flatMap(entry, ({ metadata }) =>
+    typeof metadata === 'object' && metadata !== null
+      ? Option.fromNullable((metadata as Record<string, unknown>)[ETAG])
+      : Option.none()
+  );
+
+/**
+ * Runs a read-modify-write with lost-update detection
+ * Every write records a fresh update token in metadata. Right before writing, the key is
+ * read again: a token other than the one the new value was computed from means another
+ * writer got in first. After writing, the key is read back: a different token means a
+ * concurrent writer overwrote the update. Either conflict is retried from a fresh read.
+ * KV is eventually consistent, so this only detects conflicts between writers that observe
+ * each other's writes (typically the same location); it narrows the window for lost
+ * updates but cannot close it.
+ * @param read - Reads the current value with its metadata
+ * @param write - Writes a value with the given options
+ * @param key - The key to update
+ * @param f - Computes the new value from the current one; may run once per attempt
+ * @param options - Optional put configuration and retry schedule
+ * @internal
+ */
+export const optimisticUpdate = <V, E1, E2>(
+  read: (key: string) => Effect.Effect<Option.Option<ValueWithMetadata<V, unknown>>, E1>,
+  write: (key: string, value: V, options: PutOptions) => Effect.Effect<void, E2>,
+  key: string,
+  f: (current: Option.Option<V>) => V,
+  options: UpdateOptions = {}
+): Effect.Effect<V, E1 | E2 | KVConflictError> => {
+  const { retry = DEFAULT_RETRY, ...putOptions } = options;
+
+  return Effect.suspend(() => {
+    let attempts = 0;
+    const attempt = Effect.gen(function* () {
+      attempts++;
+      const current = yield* uncached(read(key));
+      const next = f(Option.map(current, ({ value }) => value));
+      const latest = yield* uncached(read(key));
+      if (!Equal.equals(etagOf(latest), etagOf(current))) {
+        return yield* Effect.fail(new KVConflictError({ key, attempts }));
+      }
+      const etag = crypto.randomUUID();
+      yield* uncached(
+        write(key, next, {
+          ...putOptions,
+          metadata: { ...putOptions.metadata, [ETAG]: etag },
+        })
+      );
+      const written = yield* uncached(read(key));
+      if (!Option.contains(etagOf(written), etag)) {
+        return yield* Effect.fail(new KVConflictError({ key, attempts }));
+      }
+      return next;
+    });
+
+    // Only conflicts reach the schedule, since every other failure stops the retries
+    return Effect.retry(attempt, {
+      schedule: retry as Schedule.Schedule<unknown, E1 | E2 | KVConflictError>,
+      while: (error) => error instanceof KVConflictError,
+    });
+  });
+};
@@ -0,0 +1,129 @@
+import { Effect, Option } from 'effect';
+import { KVPutError } from './errors.js';
+
+/**
+ * A stored value in a JSON-safe form, as written to journals and snapshots
+ * @internal
+ */
+export interface PortableValue {
+  readonly data: string;
+  readonly encoding: 'text' | 'base64';
+}
+
+/**
+ * KV rejects expirations less than 60 seconds in the future
+ */
+const MIN_EXPIRATION_SECONDS = 60;
+
+/**
+ * Metadata markers describing how a value is stored, which no longer apply once the
+ * decoded value is written back
+ * @internal
+ */
+export const STORAGE_MARKERS = ['_compression', '_chunks'];
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to order keys by their UTF-8 byte representation, as KV lists them
+ * @internal
+ */
+export const compareKeys = (a: string, b: string): number => {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    if (left[i] !== right[i]) {
+      return left[i]! - right[i]!;
+    }
+  }
+  return left.length - right.length;
+};
+
+/**
+ * Helper to turn a value into its portable form
+ * @internal
+ */
+export const toPortableValue = (value: string | ArrayBuffer): PortableValue => {
+  if (typeof value === 'string') {
+    return { data: value, encoding: 'text' };
+  }
+  let binary = '';
+  for (const byte of new Uint8Array(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return { data: btoa(binary), encoding: 'base64' };
+};
+
+/**
+ * Decoder that fails on bytes which are not UTF-8 text, and keeps a leading byte order mark
+ */
+const utf8 = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/**
+ * Helper to read a value as text when it is valid UTF-8, leaving other values as bytes
+ * @internal
+ */
+export const textOrBytes = (bytes: ArrayBuffer): string | ArrayBuffer => {
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return bytes;
+  }
+};
+
+/**
+ * Helper to turn a portable value back into a value to store
+ * @internal
+ */
+export const fromPortableValue = (value: PortableValue): string | ArrayBuffer =>
+  value.encoding === 'text'
+    ? value.data
+    : Uint8Array.from(atob(value.data), (char) => char.charCodeAt(0)).buffer;
+
+/**
+ * Helper to drop storage markers from metadata read with a decoded value
+ * @internal
+ */
+export const userMetadata = (metadata: unknown): Record<string, unknown> | undefined => {
+  if (typeof metadata !== 'object' || metadata === null) {
+    return undefined;
+  }
+  const rest = Object.fromEntries(
+    Object.entries(metadata).filter(([name]) => !STORAGE_MARKERS.includes(name))
+  );
+  return Object.keys(rest).length === 0 ? undefined : rest;
+};
+
+/**
+ * Rejects metadata from a caller that sets one of the markers a layer writes itself
+ * A caller-supplied marker would make later reads misinterpret the stored value.
+ * @internal
+ */
+export const checkMetadata = (
+  key: string,
+  metadata: Record<string, unknown> | undefined,
+  markers: ReadonlyArray<string>
+): Effect.Effect<void, KVPutError> => {
+  const reserved = markers.find((name) => metadata !== undefined && name in metadata);
+  return reserved === undefined
+    ? Effect.void
+    : Effect.fail(
+        new KVPutError({ key, cause: new Error(`Metadata key "${reserved}" is reserved`) })
+      );
+};
+
+/**
+ * Helper to carry an absolute expiration over to a new write
+ * Expirations less than 60 seconds away are extended to 60 seconds, the shortest KV accepts.
+ * @internal
+ */
+export const carriedExpiration = (
+  expiration: number | undefined,
+  nowSeconds: number
+): Option.Option<number | undefined> =>
+  expiration === undefined
+    ? Option.some(undefined)
+    : expiration <= nowSeconds
+      ? Option.none()
+      : Option.some(Math.max(expiration, nowSeconds + MIN_EXPIRATION_SECONDS));
@@ -1,7 +1,39 @@
-import { Effect, Option, Schema } from 'effect';
-import { KVGetError, KVPutError, type KVError } from './errors.js';
-import { KV } from './KV.js';
-import type { PutOptions } from './types.js';
+import { Context, Effect, Option, pipe, Schema } from 'effect';
+import { forEachKey } from './batch.js';
+import {
+  readThrough,
+  staleWhileRevalidate,
+  type CachedOptions,
+  type SWROptions,
+  type SWRResult,
+} from './cache.js';
+import {
+  deserialize,
+  isJSONCodec,
+  jsonCodec,
+  readEncoded,
+  writeEncoded,
+  type Codec,
+} from './codec.js';
+import {
+  KVDecodeError,
+  KVEncodeError,
+  KeyNotFoundError,
+  type KVCodecError,
+  type KVConflictError,
+  type KVError,
+  type KVVersionError,
+} from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { optimisticUpdate, type UpdateOptions } from './optimistic.js';
+import type { BatchOptions, PutManyOptions, PutOptions, ValueWithMetadata } from './types.js';
+
+/**
+ * Union of the errors a TypedKV operation can fail with: those of the underlying KVService,
+ * values that do not match the schema or were written with another codec, and values whose
+ * stored version a versioned store cannot resolve
+ */
+export type TypedKVError = KVError | KVDecodeError | KVEncodeError | KVCodecError | KVVersionError;
 
 /**
  * Schema-enhanced KV operations for type-safe storage and retrieval
@@ -12,7 +44,21 @@ export interface TypedKV<V> {
    * @param key - The key to retrieve
    * @returns Effect resolving to validated value (None if not found)
    */
-  readonly get: (key: string) => Effect.Effect<Option.Option<V>, KVError>;
+  readonly get: (key: string) => Effect.Effect<Option.Option<V>, TypedKVError>;
+
+  /**
+   * Retrieves and validates a value together with its metadata
+   * @param key - The key to retrieve
+   * @param metadataSchema - Optional Effect Schema used to decode the stored metadata
+   * @returns Effect resolving to validated value, metadata and cache status (None if not found)
+   */
+  readonly getWithMetadata: {
+    (key: string): Effect.Effect<Option.Option<ValueWithMetadata<V>>, TypedKVError>;
+    <M, I>(
+      key: string,
+      metadataSchema: Schema.Schema<M, I>
+    ): Effect.Effect<Option.Option<ValueWithMetadata<V, M>>, TypedKVError>;
+  };
 
   /**
    * Validates and stores a value in KV
@@ -21,14 +67,49 @@ export interface TypedKV<V> {
    * @param options - Optional put configuration
    * @returns Effect that resolves when complete
    */
-  readonly put: (key: string, value: V, options?: PutOptions) => Effect.Effect<void, KVError>;
+  readonly put: (key: string, value: V, options?: PutOptions) => Effect.Effect<void, TypedKVError>;
+
+  /**
+   * Retrieves and validates many values at once
+   * @param keys - The keys to retrieve
+   * @param options - Optional concurrency limit
+   * @returns Effect resolving to a map of every requested key to Option of its validated
+   * value, or failing with KVBatchError listing the keys that could not be read or decoded
+   */
+  readonly getMany: (
+    keys: Iterable<string>,
+    options?: BatchOptions
+  ) => Effect.Effect<ReadonlyMap<string, Option.Option<V>>, TypedKVError>;
+
+  /**
+   * Validates and stores many values at once
+   * @param entries - Key/value pairs to store
+   * @param options - Optional put configuration applied to every entry and concurrency limit
+   * @returns Effect that resolves when complete, or fails with KVBatchError listing the
+   * keys that could not be encoded or written
+   */
+  readonly putMany: (
+    entries: Iterable<readonly [string, V]>,
+    options?: PutManyOptions
+  ) => Effect.Effect<void, TypedKVError>;
+
+  /**
+   * Deletes many keys at once
+   * @param keys - The keys to delete
+   * @param options - Optional concurrency limit
+   * @returns Effect that resolves when complete, or fails with KVBatchError
+   */
+  readonly deleteMany: (
+    keys: Iterable<string>,
+    options?: BatchOptions
+  ) => Effect.Effect<void, TypedKVError>;
 
   /**
    * Retrieves value or fails if not found
    * @param key - The key to retrieve
    * @returns Effect resolving to validated value or fails
    */
-  readonly getOrFail: (key: string) => Effect.Effect<V, KVError>;
+  readonly getOrFail: (key: string) => Effect.Effect<V, TypedKVError>;
 
   /**
    * Retrieves value with a default fallback
@@ -36,12 +117,300 @@ export interface TypedKV<V> {
    * @param defaultValue - Value to return if key not found
    * @returns Effect resolving to validated value or default
    */
-  readonly getOrElse: (key: string, defaultValue: V) => Effect.Effect<V, KVError>;
+  readonly getOrElse: (key: string, defaultValue: V) => Effect.Effect<V, TypedKVError>;
+
+  /**
+   * Returns the cached value for a key, or runs the computation and caches its result
+   * Concurrent misses for the same key share a single computation.
+   * @param key - The key to cache under
+   * @param compute - Effect producing the value on a miss
+   * @param options - Optional expiration, cache TTL, metadata and failure caching
+   * @returns Effect resolving to the validated cached value or the computed value
+   */
+  readonly cached: <E, R, F extends E = never, I = never>(
+    key: string,
+    compute: Effect.Effect<V, E, R>,
+    options?: CachedOptions<F, I>
+  ) => Effect.Effect<V, E | TypedKVError, R>;
+
+  /**
+   * Returns the cached value for a key, refreshing it in the background once stale
+   * Stale values are served until `freshFor + staleFor` has passed; misses are computed inline.
+   * @param key - The key to cache under
+   * @param compute - Effect producing the value on a miss or refresh
+   * @param options - Fresh and stale windows, cache TTL, metadata and waitUntil hook
+   * @returns Effect resolving to the validated value and whether it was fresh, stale or missing
+   */
+  readonly staleWhileRevalidate: <E, R>(
+    key: string,
+    compute: Effect.Effect<V, E, R>,
+    options: SWROptions
+  ) => Effect.Effect<SWRResult<V>, E | TypedKVError, R>;
+
+  /**
+   * Updates a value from its current value, detecting lost updates
+   * The same optimistic scheme as KVService.update: a version token in metadata, checked
+   * before and after writing, and retries on conflict. The new value is validated before it
+   * is stored.
+   * @param key - The key to update
+   * @param f - Computes the new value from the current one (None if missing); may run once
+   * per attempt
+   * @param options - Optional put configuration and retry schedule
+   * @returns Effect resolving to the value written, or failing with KVConflictError once
+   * retries are exhausted
+   */
+  readonly modify: (
+    key: string,
+    f: (current: Option.Option<V>) => V,
+    options?: UpdateOptions
+  ) => Effect.Effect<V, TypedKVError | KVConflictError>;
+}
+
+/**
+ * Options for a typed store
+ */
+export interface TypedKVOptions {
+  /**
+   * How schema-encoded values are serialized (default jsonCodec)
+   */
+  readonly codec?: Codec;
+}
+
+/**
+ * How a typed store turns stored values into typed values and back
+ * @internal
+ */
+export interface TypedStoreFormat<V, D = KVDecodeError> {
+  /**
+   * Decodes a stored value, as deserialized by the codec, given the metadata stored
+   * alongside it
+   */
+  readonly decode: (key: string, value: unknown, metadata: unknown) => Effect.Effect<V, D>;
+
+  /**
+   * Encodes a value into the representation the codec serializes
+   */
+  readonly encode: (key: string, value: V) => Effect.Effect<unknown, KVEncodeError>;
+
+  /**
+   * How encoded values are serialized
+   */
+  readonly codec: Codec;
+
+  /**
+   * Metadata written with every value
+   */
+  readonly metadata: Record<string, unknown>;
+
+  /**
+   * Whether decode depends on the stored metadata, which requires reading it back
+   */
+  readonly readsMetadata: boolean;
 }
 
+/**
+ * Helper to decode a value with a schema, failing with KVDecodeError
+ */
+export const decodeWith =
+  <V>(schema: Schema.Schema<V>) =>
+  (key: string, value: unknown): Effect.Effect<V, KVDecodeError> =>
+    Effect.mapError(
+      Schema.decodeUnknown(schema)(value),
+      (cause) => new KVDecodeError({ key, cause, value })
+    );
+
+/**
+ * Helper to encode a value with a schema, failing with KVEncodeError
+ */
+export const encodeWith =
+  <V>(schema: Schema.Schema<V>) =>
+  (key: string, value: V): Effect.Effect<unknown, KVEncodeError> =>
+    Effect.mapError(
+      Schema.encode(schema)(value),
+      (cause) => new KVEncodeError({ key, cause, value })
+    );
+
+/**
+ * Format that stores values schema-encoded, tagged with the schema
+ * @internal
+ */
+export const schemaFormat = <V>(
+  schema: Schema.Schema<V>,
+  codec: Codec = jsonCodec
+): TypedStoreFormat<V> => ({
+  decode: decodeWith(schema),
+  encode: encodeWith(schema),
+  codec,
+  metadata: { _schema: schema.ast.toString() },
+  readsMetadata: false,
+});
+
+/**
+ * Builds a TypedKV on top of a KVService using the given format
+ * @internal
+ */
+export const makeTypedStore = <V, D extends KVDecodeError | KVVersionError = KVDecodeError>(
+  kv: KVService,
+  format: TypedStoreFormat<V, D>
+): TypedKV<V> => {
+  // Plain JSON stores that ignore metadata can use the cheaper reads without it
+  const readsValueOnly = isJSONCodec(format.codec) && !format.readsMetadata;
+
+  const getWithMetadata = (key: string) =>
+    Effect.flatMap(
+      readEncoded(kv, format.codec, key),
+      Option.match({
+        onNone: () => Effect.succeed(Option.none<ValueWithMetadata<V>>()),
+        onSome: ({ value, metadata, cacheStatus }) =>
+          Effect.map(format.decode(key, value, metadata), (decoded) =>
+            Option.some({ value: decoded, metadata, cacheStatus })
+          ),
+      })
+    );
+
+  // Text that is not JSON may have been written with another codec, so it is read again with
+  // its metadata to report which one
+  const decodeText = (key: string, text: string): Effect.Effect<Option.Option<V>, TypedKVError> =>
+    Effect.matchEffect(deserialize(key, format.codec, text), {
+      onFailure: () =>
+        Effect.map(
+          getWithMetadata(key),
+          Option.map(({ value }) => value)
+        ),
+      onSuccess: (value) => Effect.map(format.decode(key, value, null), Option.some),
+    });
+
+  const get = (key: string): Effect.Effect<Option.Option<V>, TypedKVError> =>
+    readsValueOnly
+      ? Effect.flatMap(
+          kv.get(key),
+          Option.match({
+            onNone: () => Effect.succeed(Option.none<V>()),
+            onSome: (text) => decodeText(key, text),
+          })
+        )
+      : Effect.map(
+          getWithMetadata(key),
+          Option.map(({ value }) => value)
+        );
+
+  const put = (key: string, value: V, options?: PutOptions) =>
+    Effect.gen(function* () {
+      const encoded = yield* format.encode(key, value);
+      yield* writeEncoded(kv, format.codec, key, encoded, {
+        ...options,
+        metadata: {
+          ...options?.metadata,
+          ...format.metadata,
+        },
+      });
+    });
+
+  const getMany = (keys: Iterable<string>, options?: BatchOptions) =>
+    Effect.gen(function* () {
+      if (!readsValueOnly) {
+        const decoded = yield* forEachKey(
+          'get',
+          new Set(keys),
+          (key) => key,
+          (key) => Effect.map(get(key), (value) => [key, value] as const),
+          options?.concurrency
+        );
+        return new Map(decoded) as ReadonlyMap<string, Option.Option<V>>;
+      }
+      const values = yield* kv.getMany(keys, options);
+      const decoded = yield* forEachKey(
+        'get',
+        values,
+        ([key]) => key,
+        ([key, value]) =>
+          Option.isNone(value)
+            ? Effect.succeed([key, Option.none<V>()] as const)
+            : Effect.map(
+                decodeText(key, value.value),
+                (decodedValue) => [key, decodedValue] as const
+              ),
+        options?.concurrency
+      );
+      return new Map(decoded) as ReadonlyMap<string, Option.Option<V>>;
+    });
+
+  return {
+    get,
+
+    getWithMetadata: <M, I>(key: string, metadataSchema?: Schema.Schema<M, I>) =>
+      Effect.gen(function* () {
+        const maybeEntry = yield* readEncoded(kv, format.codec, key);
+        if (Option.isNone(maybeEntry)) {
+          return Option.none<ValueWithMetadata<V, M>>();
+        }
+        const { value, metadata, cacheStatus } = maybeEntry.value;
+        const decoded = yield* format.decode(key, value, metadata);
+        const decodedMetadata =
+          metadataSchema === undefined || metadata === null
+            ? (metadata as M | null)
+            : yield* Effect.mapError(
+                Schema.decodeUnknown(metadataSchema)(metadata),
+                (cause) => new KVDecodeError({ key, cause, value: metadata, source: 'metadata' })
+              );
+        return Option.some({ value: decoded, metadata: decodedMetadata, cacheStatus });
+      }),
+
+    put,
+
+    getMany,
+
+    putMany: (entries: Iterable<readonly [string, V]>, options?: PutManyOptions) => {
+      const { concurrency, ...putOptions } = options ?? {};
+      return pipe(
+        forEachKey(
+          'put',
+          entries,
+          ([key]) => key,
+          ([key, value]) => put(key, value, putOptions),
+          concurrency
+        ),
+        Effect.asVoid
+      );
+    },
+
+    deleteMany: (keys: Iterable<string>, options?: BatchOptions) => kv.deleteMany(keys, options),
+
+    getOrFail: (key: string) =>
+      pipe(
+        get(key),
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.fail(new KeyNotFoundError({ key })),
+            onSome: Effect.succeed,
+          })
+        )
+      ),
+
+    getOrElse: (key: string, defaultValue: V) =>
+      Effect.gen(function* () {
+        // Round-trip the default so it is validated exactly like a stored value
+        const encodedDefault = yield* format.encode(key, defaultValue);
+        const maybeValue = yield* get(key);
+        return Option.isSome(maybeValue)
+          ? maybeValue.value
+          : yield* format.decode(key, encodedDefault, format.metadata);
+      }),
+
+    cached: (key, compute, options) => readThrough(kv, format, key, compute, options),
+
+    staleWhileRevalidate: (key, compute, options) =>
+      staleWhileRevalidate(kv, format, key, compute, options),
+
+    modify: (key, f, options) => optimisticUpdate(getWithMetadata, put, key, f, options),
+  };
+};
+
 /**
  * Creates a typed KV wrapper with schema validation
  * @param schema - Effect Schema for type V
+ * @param tag - KV tag of the namespace to use (defaults to KV)
+ * @param options - Optional codec used to serialize values
  * @returns TypedKV instance with validated get/put operations
  * @example
  * ```typescript
@@ -57,111 +426,19 @@ export interface TypedKV<V> {
  * const user = yield* UserKV.get("user:123"); // Option<{ id: number, name: string }>
  * ```
  */
-export const makeTypedKV = <V>(
-  schema: Schema.Schema<V>
-): Effect.Effect<TypedKV<V>, never, 'effect-kv/KV'> =>
-  Effect.gen(function* () {
-    const kv = yield* KV;
-
-    return {
-      get: (key: string) =>
-        Effect.gen(function* () {
-          const maybeValue = yield* kv.getJSON<V>(key);
-          if (Option.isNone(maybeValue)) {
-            return Option.none<V>();
-          }
-          const decoded = yield* Schema.decodeUnknown(schema)(maybeValue.value).pipe(
-            Effect.map(Option.some),
-            Effect.mapError(
-              (error) =>
-                new KVGetError({
-                  key,
-                  cause: `Schema validation failed: ${error.message}`,
-                })
-            )
-          );
-          return decoded;
-        }),
-
-      put: (key: string, value: V, options?: PutOptions) =>
-        Effect.gen(function* () {
-          const encoded = yield* Schema.encode(schema)(value).pipe(
-            Effect.mapError(
-              (error) =>
-                new KVPutError({
-                  key,
-                  cause: `Schema encoding failed: ${error.message}`,
-                })
-            )
-          );
-          yield* kv.putJSON(key, encoded, {
-            ...options,
-            metadata: {
-              ...options?.metadata,
-              _schema: schema.ast.toString(),
-            },
-          });
-        }),
-
-      getOrFail: (key: string) =>
-        Effect.gen(function* () {
-          const maybeValue = yield* kv.getJSON<V>(key);
-          if (Option.isNone(maybeValue)) {
-            return yield* Effect.fail(
-              new KVGetError({
-                key,
-                cause: 'Key not found',
-              })
-            );
-          }
-          const decoded = yield* Schema.decodeUnknown(schema)(maybeValue.value).pipe(
-            Effect.mapError(
-              (error) =>
-                new KVGetError({
-                  key,
-                  cause: `Schema validation failed: ${error.message}`,
-                })
-            )
-          );
-          return decoded;
-        }),
-
-      getOrElse: (key: string, defaultValue: V) =>
-        Effect.gen(function* () {
-          const encodedDefault = yield* Schema.encode(schema)(defaultValue).pipe(
-            Effect.mapError(
-              (error) =>
-                new KVGetError({
-                  key,
-                  cause: `Default value encoding failed: ${error.message}`,
-                })
-            )
-          );
-          const maybeValue = yield* kv.getJSON<V>(key);
-          if (Option.isNone(maybeValue)) {
-            return yield* Schema.decodeUnknown(schema)(encodedDefault).pipe(
-              Effect.mapError(
-                (error) =>
-                  new KVGetError({
-                    key,
-                    cause: `Default value decoding failed: ${error.message}`,
-                  })
-              )
-            );
-          }
-          const decoded = yield* Schema.decodeUnknown(schema)(maybeValue.value).pipe(
-            Effect.mapError(
-              (error) =>
-                new KVGetError({
-                  key,
-                  cause: `Schema validation failed: ${error.message}`,
-                })
-            )
-          );
-          return decoded;
-        }),
-    };
-  });
+export const makeTypedKV: {
+  <V>(schema: Schema.Schema<V>): Effect.Effect<TypedKV<V>, never, 'effect-kv/KV'>;
+  <V, Id extends string>(
+    schema: Schema.Schema<V>,
+    tag: Context.Tag<Id, KVService>,
+    options?: TypedKVOptions
+  ): Effect.Effect<TypedKV<V>, never, Id>;
+} = <V, Id extends string>(
+  schema: Schema.Schema<V>,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>,
+  options: TypedKVOptions = {}
+): Effect.Effect<TypedKV<V>, never, Id> =>
+  Effect.map(tag, (kv) => makeTypedStore(kv, schemaFormat(schema, options.codec)));
 
 /**
  * Schema for KV key metadata
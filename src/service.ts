@@ -0,0 +1,199 @@
+import { Chunk, Deferred, Effect, Option, pipe, Stream } from 'effect';
+import { forEachKey } from './batch.js';
+import {
+  jsonFormat,
+  keyLocationOf,
+  readThrough,
+  setKeyLocation,
+  staleWhileRevalidate,
+  type KeyLocation,
+} from './cache.js';
+import { KeyNotFoundError, KVGetError, KVPutError, type KVError } from './errors.js';
+import type { KVService } from './KV.js';
+import { optimisticUpdate } from './optimistic.js';
+import { recoverTransactions, runTransaction } from './transaction.js';
+import type { ListAllOptions, ListKey } from './types.js';
+
+/**
+ * Operations a KVService implementation provides directly
+ * Everything else is derived from these, so decorators only need to wrap the core
+ * @internal
+ */
+export type KVServiceCore = Omit<
+  KVService,
+  | 'putJSON'
+  | 'putMany'
+  | 'deleteMany'
+  | 'listAll'
+  | 'keys'
+  | 'cached'
+  | 'staleWhileRevalidate'
+  | 'getOrFail'
+  | 'getOrElse'
+  | 'getByteStream'
+  | 'putStream'
+  | 'update'
+  | 'transaction'
+  | 'recoverTransactions'
+>;
+
+/**
+ * Helper to stream every key by following list cursors
+ */
+const listAllWith =
+  (list: KVService['list']) =>
+  (options?: ListAllOptions): Stream.Stream<ListKey, KVError> => {
+    const pages = Stream.paginateChunkEffect(undefined as string | undefined, (cursor) =>
+      pipe(
+        list({ prefix: options?.prefix, limit: options?.pageSize, cursor }),
+        Effect.map(
+          (result) =>
+            [
+              Chunk.fromIterable(result.keys),
+              result.list_complete || result.cursor === undefined
+                ? Option.none()
+                : Option.some(result.cursor),
+            ] as const
+        )
+      )
+    );
+    return options?.maxKeys === undefined ? pages : Stream.take(pages, options.maxKeys);
+  };
+
+/**
+ * Builds a complete KVService from its core operations
+ * @param core - The operations the implementation provides
+ * @param location - Where the service's keys live, when they are stored in a namespace shared
+ * with other services (default: the service is its own root)
+ * @internal
+ */
+export const deriveKVService = (core: KVServiceCore, location?: KeyLocation): KVService => {
+  const listAll = listAllWith(core.list);
+
+  const service: KVService = {
+    ...core,
+
+    // Scoped views record where their keys live, so cached computations are shared with
+    // every other view of the same keys
+    scoped: (prefix) => {
+      const view = core.scoped(prefix);
+      const parent = keyLocationOf(service);
+      setKeyLocation(view, { root: parent.root, prefix: parent.prefix + prefix });
+      return view;
+    },
+
+    putJSON: <T>(key: string, value: T, options?: Parameters<KVService['put']>[2]) =>
+      pipe(
+        Effect.try(() => JSON.stringify(value)),
+        Effect.mapError((cause) => new KVPutError({ key, cause })),
+        Effect.flatMap((json) => core.put(key, json, options))
+      ),
+
+    putMany: (entries, options) => {
+      const { concurrency, ...putOptions } = options ?? {};
+      return pipe(
+        forEachKey(
+          'put',
+          entries,
+          ([key]) => key,
+          ([key, value]) => core.put(key, value, putOptions),
+          concurrency
+        ),
+        Effect.asVoid
+      );
+    },
+
+    deleteMany: (keys, options) =>
+      pipe(
+        forEachKey('delete', keys, (key) => key, core.delete, options?.concurrency),
+        Effect.asVoid
+      ),
+
+    listAll,
+
+    keys: (prefix) =>
+      pipe(
+        listAll({ prefix }),
+        Stream.map((key) => key.name),
+        Stream.runCollect
+      ),
+
+    cached: (key, compute, options) => readThrough(service, jsonFormat(), key, compute, options),
+
+    staleWhileRevalidate: (key, compute, options) =>
+      staleWhileRevalidate(service, jsonFormat(), key, compute, options),
+
+    getOrFail: (key, options) =>
+      pipe(
+        core.get(key, options),
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.fail(new KeyNotFoundError({ key }) as KVError),
+            onSome: Effect.succeed,
+          })
+        )
+      ),
+
+    getOrElse: (key, defaultValue, options) =>
+      pipe(core.get(key, options), Effect.map(Option.getOrElse(() => defaultValue))),
+
+    update: (key, f, options) =>
+      optimisticUpdate(
+        (name) => core.getWithMetadata(name),
+        (name, value, putOptions) => core.put(name, value, putOptions),
+        key,
+        f,
+        options
+      ),
+
+    transaction: (body, options) => runTransaction(service, body, options),
+
+    recoverTransactions: (options) => recoverTransactions(service, options),
+
+    getByteStream: (key, options) =>
+      Effect.map(
+        core.getStream(key, options),
+        Option.map((body) =>
+          Stream.fromReadableStream({
+            evaluate: () => body as ReadableStream<Uint8Array>,
+            onError: (cause) => new KVGetError({ key, cause }),
+          })
+        )
+      ),
+
+    putStream: <E, R>(
+      key: string,
+      stream: Stream.Stream<Uint8Array, E, R>,
+      options?: Parameters<KVService['put']>[2]
+    ) =>
+      Effect.gen(function* () {
+        // The put only sees the stream fail, so keep the error to report it as it was
+        let failure = Option.none<E>();
+        const aborted = yield* Deferred.make<never, KVPutError>();
+        const body = yield* Stream.toReadableStreamEffect(
+          pipe(
+            stream,
+            Stream.tapError((error) => Effect.sync(() => (failure = Option.some(error)))),
+            Stream.interruptWhen(Deferred.await(aborted))
+          )
+        );
+        return yield* pipe(
+          core.put(key, body, options),
+          Effect.catchAll((error) =>
+            Option.match(failure, {
+              onNone: () => Effect.fail<E | KVError>(error),
+              onSome: Effect.fail,
+            })
+          ),
+          // Failing the body makes the binding abandon the upload
+          Effect.onInterrupt(() =>
+            Deferred.fail(aborted, new KVPutError({ key, cause: 'interrupted' }))
+          )
+        );
+      }),
+  };
+  if (location !== undefined) {
+    setKeyLocation(service, location);
+  }
+  return service;
+};
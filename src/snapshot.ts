@@ -0,0 +1,305 @@
+import { Clock, Context, Effect, Option, pipe, Schema, Stream } from 'effect';
+import { DEFAULT_BATCH_CONCURRENCY } from './batch.js';
+import { MAX_VALUE_BYTES, withoutChunkKeys } from './chunked.js';
+import { KVSnapshotError, type KVError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import {
+  carriedExpiration,
+  fromPortableValue,
+  textOrBytes,
+  toPortableValue,
+  userMetadata,
+} from './portable.js';
+
+/**
+ * One line of a namespace snapshot
+ */
+export interface SnapshotEntry {
+  readonly key: string;
+
+  /**
+   * The value, as text or base64-encoded bytes
+   */
+  readonly value: string;
+  readonly encoding: 'text' | 'base64';
+  readonly metadata?: Record<string, unknown>;
+
+  /**
+   * Expiration timestamp (seconds since epoch), if set
+   */
+  readonly expiration?: number;
+}
+
+/**
+ * Options for exporting a namespace
+ */
+export interface ExportOptions {
+  /**
+   * Only export keys starting with this prefix
+   */
+  readonly prefix?: string;
+
+  /**
+   * Maximum number of keys per list call (KV default 1000)
+   */
+  readonly pageSize?: number;
+
+  /**
+   * Maximum number of values read at once (default 10)
+   */
+  readonly concurrency?: number;
+}
+
+/**
+ * Options for importing a snapshot
+ */
+export interface ImportOptions {
+  /**
+   * Whether to replace keys that already exist or leave them as they are (default 'overwrite')
+   */
+  readonly mode?: 'overwrite' | 'skipExisting';
+
+  /**
+   * Maximum number of entries written at once (default 10)
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Key in the target namespace where progress is saved; a later import with the same key
+   * resumes after the last saved line, and the key is deleted once the import completes
+   */
+  readonly checkpoint?: string;
+
+  /**
+   * Number of lines between checkpoints and progress reports (default 100)
+   */
+  readonly checkpointEvery?: number;
+
+  /**
+   * Called with the running totals at each checkpoint and once the import completes
+   */
+  readonly onProgress?: (progress: ImportProgress) => Effect.Effect<void>;
+}
+
+/**
+ * Running totals of an import, including lines handled by earlier runs when resumed
+ */
+export interface ImportProgress {
+  /**
+   * Lines handled, including blank ones
+   */
+  readonly lines: number;
+
+  /**
+   * Entries written
+   */
+  readonly written: number;
+
+  /**
+   * Entries left out because the key already existed (in 'skipExisting' mode) or the entry
+   * had expired
+   */
+  readonly skipped: number;
+}
+
+const SnapshotLine = Schema.parseJson(
+  Schema.Struct({
+    key: Schema.String,
+    value: Schema.String,
+    encoding: Schema.Literal('text', 'base64'),
+    metadata: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+    expiration: Schema.optional(Schema.Number),
+  })
+);
+
+const DEFAULT_CHECKPOINT_EVERY = 100;
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to measure an imported value the way KV limits it, in bytes
+ */
+const byteLengthOf = (value: string | ArrayBuffer): number =>
+  typeof value === 'string' ? encoder.encode(value).byteLength : value.byteLength;
+
+/**
+ * Streams the entries of a KVService as NDJSON lines
+ */
+const exportFrom = (kv: KVService, options: ExportOptions): Stream.Stream<string, KVError> =>
+  pipe(
+    // Large values are exported whole under their manifest's key
+    withoutChunkKeys(kv.listAll({ prefix: options.prefix, pageSize: options.pageSize })),
+    Stream.mapEffect(
+      ({ name, expiration }) =>
+        Effect.map(
+          kv.getArrayBufferWithMetadata(name),
+          Option.map(({ value, metadata }) => {
+            const { data, encoding } = toPortableValue(textOrBytes(value));
+            const entry: SnapshotEntry = {
+              key: name,
+              value: data,
+              encoding,
+              metadata: userMetadata(metadata),
+              expiration,
+            };
+            return `${JSON.stringify(entry)}\n`;
+          })
+        ),
+      { concurrency: options.concurrency ?? DEFAULT_BATCH_CONCURRENCY }
+    ),
+    // Keys deleted since they were listed
+    Stream.filterMap((line) => line)
+  );
+
+/**
+ * Writes NDJSON snapshot lines to a KVService
+ */
+const importInto = <E, R>(
+  kv: KVService,
+  lines: Stream.Stream<string, E, R>,
+  options: ImportOptions
+): Effect.Effect<ImportProgress, E | KVError | KVSnapshotError, R> =>
+  Effect.gen(function* () {
+    const checkpointEvery = options.checkpointEvery ?? DEFAULT_CHECKPOINT_EVERY;
+    const resumed =
+      options.checkpoint === undefined
+        ? Option.none<ImportProgress>()
+        : yield* kv.getJSON<ImportProgress>(options.checkpoint);
+    let progress = Option.getOrElse(resumed, () => ({ lines: 0, written: 0, skipped: 0 }));
+
+    const report = Effect.gen(function* () {
+      if (options.checkpoint !== undefined) {
+        yield* kv.putJSON(options.checkpoint, progress);
+      }
+      if (options.onProgress !== undefined) {
+        yield* options.onProgress(progress);
+      }
+    });
+
+    const importLine = (text: string, line: number) =>
+      Effect.gen(function* () {
+        if (text.trim() === '') {
+          return 'blank' as const;
+        }
+        const entry = yield* Effect.mapError(
+          Schema.decodeUnknown(SnapshotLine)(text),
+          (cause) => new KVSnapshotError({ line, cause })
+        );
+        const now = Math.floor((yield* Clock.currentTimeMillis) / 1000);
+        const expiration = carriedExpiration(entry.expiration, now);
+        if (Option.isNone(expiration)) {
+          return 'skipped' as const;
+        }
+        if (options.mode === 'skipExisting') {
+          const existing = yield* kv.getStream(entry.key);
+          if (Option.isSome(existing)) {
+            yield* Effect.promise(() => existing.value.cancel());
+            return 'skipped' as const;
+          }
+        }
+        const value = fromPortableValue({ data: entry.value, encoding: entry.encoding });
+        const putOptions = { metadata: userMetadata(entry.metadata), expiration: expiration.value };
+        // Values over the KV limit were exported whole from their chunks, so chunk them again
+        yield* byteLengthOf(value) > MAX_VALUE_BYTES
+          ? kv.putChunked(entry.key, value, putOptions)
+          : kv.put(entry.key, value, putOptions);
+        return 'written' as const;
+      });
+
+    // Outcomes arrive in line order, so a checkpoint never counts a line that is still
+    // being written
+    yield* pipe(
+      Stream.splitLines(lines),
+      Stream.zipWithIndex,
+      Stream.drop(progress.lines),
+      Stream.mapEffect(([text, index]) => importLine(text, index + 1), {
+        concurrency: options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+      }),
+      Stream.runForEach((outcome) => {
+        progress = {
+          lines: progress.lines + 1,
+          written: progress.written + (outcome === 'written' ? 1 : 0),
+          skipped: progress.skipped + (outcome === 'skipped' ? 1 : 0),
+        };
+        return progress.lines % checkpointEvery === 0 ? report : Effect.void;
+      })
+    );
+
+    if (options.checkpoint !== undefined) {
+      yield* kv.delete(options.checkpoint);
+    }
+    if (options.onProgress !== undefined) {
+      yield* options.onProgress(progress);
+    }
+    return progress;
+  });
+
+/**
+ * Exports every entry of a namespace as a portable NDJSON snapshot
+ * Keys are listed page by page and each value is read with its metadata, so values come out
+ * decoded: decompressed, reassembled from chunks and, through an encrypted service,
+ * decrypted. Each line is a JSON SnapshotEntry followed by a newline; values that are valid
+ * UTF-8 are stored as text and others as base64.
+ * @param options - Key prefix, page size and read concurrency
+ * @param tag - KV tag of the namespace to export (defaults to KV)
+ * @returns Stream of NDJSON lines
+ * @example
+ * ```typescript
+ * const snapshot = yield* exportNamespace({ prefix: 'user:' }).pipe(
+ *   Stream.encodeText,
+ *   Stream.toReadableStreamEffect
+ * );
+ * yield* Effect.promise(() => env.BACKUPS.put('users.ndjson', snapshot));
+ * ```
+ */
+export const exportNamespace: {
+  (options?: ExportOptions): Stream.Stream<string, KVError, 'effect-kv/KV'>;
+  <Id extends string>(
+    options: ExportOptions | undefined,
+    tag: Context.Tag<Id, KVService>
+  ): Stream.Stream<string, KVError, Id>;
+} = <Id extends string>(
+  options: ExportOptions = {},
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Stream.Stream<string, KVError, Id> =>
+  Stream.unwrap(Effect.map(tag, (kv) => exportFrom(kv, options)));
+
+/**
+ * Imports a snapshot produced by exportNamespace
+ * The input may be split anywhere, not only at line breaks. Entries whose expiration has
+ * passed are skipped, and expirations less than 60 seconds away are extended to 60 seconds,
+ * the shortest KV accepts. Values over the 25 MiB KV limit are stored with putChunked. With a checkpoint key, progress is saved every `checkpointEvery`
+ * lines, so an interrupted import can be run again with the same input to resume; up to
+ * `concurrency` lines after the checkpoint may be written twice.
+ * @param lines - NDJSON text, e.g. `Stream.decodeText` of a file body
+ * @param options - Import mode, concurrency, checkpoint key and progress callback
+ * @param tag - KV tag of the namespace to import into (defaults to KV)
+ * @returns Effect resolving to the import totals, or failing with KVSnapshotError for a
+ * malformed line
+ * @example
+ * ```typescript
+ * const body = yield* Effect.promise(() => env.BACKUPS.get('users.ndjson'));
+ * const totals = yield* importNamespace(
+ *   Stream.fromReadableStream({ evaluate: () => body!.body, onError: (cause) => cause }).pipe(
+ *     Stream.decodeText
+ *   ),
+ *   { mode: 'skipExisting', checkpoint: 'import:users' }
+ * );
+ * ```
+ */
+export const importNamespace: {
+  <E, R>(
+    lines: Stream.Stream<string, E, R>,
+    options?: ImportOptions
+  ): Effect.Effect<ImportProgress, E | KVError | KVSnapshotError, R | 'effect-kv/KV'>;
+  <E, R, Id extends string>(
+    lines: Stream.Stream<string, E, R>,
+    options: ImportOptions | undefined,
+    tag: Context.Tag<Id, KVService>
+  ): Effect.Effect<ImportProgress, E | KVError | KVSnapshotError, R | Id>;
+} = <E, R, Id extends string>(
+  lines: Stream.Stream<string, E, R>,
+  options: ImportOptions = {},
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Effect.Effect<ImportProgress, E | KVError | KVSnapshotError, R | Id> =>
+  Effect.flatMap(tag, (kv) => importInto(kv, lines, options));
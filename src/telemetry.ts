@@ -0,0 +1,232 @@
+import { Effect, Metric, pipe } from 'effect';
+import type { KVOperation } from './config.js';
+import type { KVError } from './errors.js';
+
+/**
+ * How keys are recorded on spans
+ * - 'keep' records keys as they are
+ * - 'hash' records the unkeyed SHA-256 hex digest of each key. This hides keys from casual
+ *   reading but is not anonymization: anyone can hash guessed keys (emails, ids) and match
+ *   the digests
+ * - `{ hmac: secret }` records the HMAC-SHA-256 hex digest of each key under a secret, so
+ *   digests can only be matched by holders of the secret
+ * - 'drop' omits keys
+ * - a function maps each key to the value to record, or undefined to omit it
+ */
+export type KeyRedaction =
+  | 'keep'
+  | 'hash'
+  | 'drop'
+  | { readonly hmac: CryptoKey | ArrayBuffer | Uint8Array }
+  | ((key: string) => string | undefined);
+
+/**
+ * Metrics recorded for every KV operation
+ * Every metric is tagged with `operation`; `reads` is also tagged with `result` (hit or
+ * miss) and `errors` with `error_tag`.
+ */
+export const KVMetrics = {
+  /**
+   * Latency of each operation in milliseconds, including retries
+   */
+  duration: Metric.timerWithBoundaries(
+    'kv_operation_duration',
+    [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+    'Latency of KV operations'
+  ),
+
+  /**
+   * Bytes of text and ArrayBuffer values read
+   */
+  bytesRead: Metric.counter('kv_bytes_read', {
+    description: 'Bytes read from KV',
+    incremental: true,
+  }),
+
+  /**
+   * Bytes of string and ArrayBuffer values written
+   */
+  bytesWritten: Metric.counter('kv_bytes_written', {
+    description: 'Bytes written to KV',
+    incremental: true,
+  }),
+
+  /**
+   * Keys read, tagged with whether they were found
+   */
+  reads: Metric.counter('kv_reads', { description: 'Keys read from KV', incremental: true }),
+
+  /**
+   * Failed operations, tagged with the error's tag
+   */
+  errors: Metric.counter('kv_errors', { description: 'Failed KV operations', incremental: true }),
+};
+
+/**
+ * What an operation is about, recorded as span attributes
+ * @internal
+ */
+export interface KVSpanDetails {
+  readonly key?: string;
+  readonly valueType?: string;
+  readonly cacheTtl?: number;
+  readonly bytes?: number;
+}
+
+/**
+ * What an operation returned, used for span attributes and metrics
+ * @internal
+ */
+export interface KVOutcome {
+  readonly bytes?: number;
+  readonly hits?: number;
+  readonly misses?: number;
+  readonly keys?: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Helper to measure the byte size of a value, when it is known without consuming it
+ * @internal
+ */
+export const byteSize = (value: unknown): number | undefined =>
+  typeof value === 'string'
+    ? encoder.encode(value).byteLength
+    : value instanceof ArrayBuffer || ArrayBuffer.isView(value)
+      ? value.byteLength
+      : undefined;
+
+/**
+ * HMAC keys imported per redaction setting, so secrets are imported once
+ */
+const hmacKeys = new WeakMap<object, Promise<CryptoKey>>();
+
+/**
+ * Helper to import the secret of an HMAC redaction
+ */
+const hmacKeyOf = (redaction: { readonly hmac: CryptoKey | ArrayBuffer | Uint8Array }) => {
+  const existing = hmacKeys.get(redaction);
+  if (existing !== undefined) {
+    return existing;
+  }
+  const { hmac } = redaction;
+  const imported =
+    hmac instanceof ArrayBuffer || hmac instanceof Uint8Array
+      ? crypto.subtle.importKey('raw', hmac, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+      : Promise.resolve(hmac);
+  hmacKeys.set(redaction, imported);
+  return imported;
+};
+
+/**
+ * Helper to format a digest as lowercase hex
+ */
+const toHex = (digest: ArrayBuffer): string =>
+  Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Helper to apply the configured redaction to a key
+ */
+const redactKey = (redaction: KeyRedaction, key: string): Effect.Effect<string | undefined> => {
+  if (redaction === 'keep') {
+    return Effect.succeed(key);
+  }
+  if (redaction === 'drop') {
+    return Effect.succeed(undefined);
+  }
+  if (redaction === 'hash') {
+    return Effect.promise(async () =>
+      toHex(await crypto.subtle.digest('SHA-256', encoder.encode(key)))
+    );
+  }
+  if (typeof redaction === 'object') {
+    return Effect.promise(async () =>
+      toHex(await crypto.subtle.sign('HMAC', await hmacKeyOf(redaction), encoder.encode(key)))
+    );
+  }
+  return Effect.sync(() => redaction(key));
+};
+
+/**
+ * Wraps a KV operation in a span and records its metrics
+ * The span is named `kv.<operation>` and records the (redacted) key and prefix, value type,
+ * byte size, cacheTtl and outcome (hit, miss, success or failure).
+ * @param operation - The operation being performed
+ * @param prefix - Prefix of the scope the operation runs in
+ * @param redaction - How keys and prefixes are recorded
+ * @param details - What the operation is about
+ * @param measure - Describes the operation's result
+ * @internal
+ */
+export const instrument =
+  <A>(
+    operation: KVOperation,
+    prefix: string,
+    redaction: KeyRedaction,
+    details: KVSpanDetails,
+    measure: (result: A) => KVOutcome = () => ({})
+  ) =>
+  <E extends KVError, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.gen(function* () {
+      const key =
+        details.key === undefined ? undefined : yield* redactKey(redaction, prefix + details.key);
+      const scope = prefix === '' ? undefined : yield* redactKey(redaction, prefix);
+      const tagged = <Type, In, Out>(metric: Metric.Metric<Type, In, Out>) =>
+        Metric.tagged(metric, 'operation', operation);
+
+      const recordSuccess = (result: A) => {
+        const outcome = measure(result);
+        const bytes = details.bytes ?? outcome.bytes;
+        const single =
+          (outcome.hits ?? 0) + (outcome.misses ?? 0) === 1 && outcome.keys === undefined;
+        return Effect.all([
+          Effect.annotateCurrentSpan({
+            'kv.outcome': single ? (outcome.hits === 1 ? 'hit' : 'miss') : 'success',
+            ...(bytes === undefined ? {} : { 'kv.bytes': bytes }),
+            ...(outcome.keys === undefined ? {} : { 'kv.keys': outcome.keys }),
+          }),
+          bytes === undefined
+            ? Effect.void
+            : Metric.incrementBy(
+                tagged(operation === 'put' ? KVMetrics.bytesWritten : KVMetrics.bytesRead),
+                bytes
+              ),
+          outcome.hits === undefined
+            ? Effect.void
+            : Metric.incrementBy(
+                Metric.tagged(tagged(KVMetrics.reads), 'result', 'hit'),
+                outcome.hits
+              ),
+          outcome.misses === undefined
+            ? Effect.void
+            : Metric.incrementBy(
+                Metric.tagged(tagged(KVMetrics.reads), 'result', 'miss'),
+                outcome.misses
+              ),
+        ]);
+      };
+
+      const recordFailure = (error: E) =>
+        Effect.all([
+          Effect.annotateCurrentSpan({ 'kv.outcome': 'failure', 'kv.error_tag': error._tag }),
+          Metric.increment(Metric.tagged(tagged(KVMetrics.errors), 'error_tag', error._tag)),
+        ]);
+
+      return yield* pipe(
+        effect,
+        Effect.tap(recordSuccess),
+        Effect.tapError(recordFailure),
+        Metric.trackDuration(tagged(KVMetrics.duration)),
+        Effect.withSpan(`kv.${operation}`, {
+          kind: 'client',
+          attributes: {
+            'kv.operation': operation,
+            ...(key === undefined ? {} : { 'kv.key': key }),
+            ...(scope === undefined ? {} : { 'kv.prefix': scope }),
+            ...(details.valueType === undefined ? {} : { 'kv.value_type': details.valueType }),
+            ...(details.cacheTtl === undefined ? {} : { 'kv.cache_ttl': details.cacheTtl }),
+          },
+        })
+      );
+    });
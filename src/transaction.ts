@@ -0,0 +1,319 @@
+import { Clock, Duration, Effect, Option, pipe, Stream } from 'effect';
+import { MAX_VALUE_BYTES } from './chunked.js';
+import { KVGetError, KVPutError, KVValueTooLargeError, type KVError } from './errors.js';
+import type { KVService } from './KV.js';
+import {
+  carriedExpiration,
+  fromPortableValue,
+  toPortableValue,
+  userMetadata,
+  type PortableValue,
+} from './portable.js';
+import type { PutOptions } from './types.js';
+
+/**
+ * Buffered view of the store inside a transaction
+ * Writes and deletes are recorded, not applied, until the transaction commits; reads see
+ * the transaction's own writes.
+ */
+export interface Transaction {
+  /**
+   * Reads a text value, including writes made earlier in the transaction
+   */
+  readonly get: (key: string) => Effect.Effect<Option.Option<string>, KVError>;
+
+  /**
+   * Reads a JSON value, including writes made earlier in the transaction
+   */
+  readonly getJSON: <T>(key: string) => Effect.Effect<Option.Option<T>, KVError>;
+
+  /**
+   * Records a write, applied when the transaction commits
+   */
+  readonly put: (
+    key: string,
+    value: string | ArrayBuffer,
+    options?: PutOptions
+  ) => Effect.Effect<void>;
+
+  /**
+   * Records a JSON write, applied when the transaction commits
+   */
+  readonly putJSON: <T>(
+    key: string,
+    value: T,
+    options?: PutOptions
+  ) => Effect.Effect<void, KVError>;
+
+  /**
+   * Records a delete, applied when the transaction commits
+   */
+  readonly delete: (key: string) => Effect.Effect<void>;
+}
+
+/**
+ * Options for transactions
+ */
+export interface TransactionOptions {
+  /**
+   * Reserved prefix of journal keys (default '_tx:')
+   */
+  readonly journalPrefix?: string;
+}
+
+/**
+ * Options for recovering leftover transaction journals
+ */
+export interface RecoveryOptions extends TransactionOptions {
+  /**
+   * Whether to finish leftover transactions or undo them (default 'replay')
+   */
+  readonly mode?: 'replay' | 'rollback';
+
+  /**
+   * Only recover journals at least this old, so transactions still being applied are left
+   * alone (default 1 minute)
+   */
+  readonly olderThan?: Duration.DurationInput;
+}
+
+/**
+ * Counts reported by a recovery run
+ */
+export interface RecoveryResult {
+  readonly replayed: number;
+  readonly rolledBack: number;
+}
+
+/**
+ * A value replaced by a mutation, with its metadata and expiration
+ */
+interface JournalBefore {
+  readonly value: PortableValue;
+  readonly metadata: unknown;
+  readonly expiration?: number;
+}
+
+/**
+ * A mutation recorded in a journal, with the value it replaces for rollback
+ */
+interface JournalMutation {
+  readonly key: string;
+  readonly value: PortableValue | null;
+  readonly options?: PutOptions;
+  readonly before: JournalBefore | null;
+}
+
+/**
+ * Journal persisted before a transaction's mutations are applied
+ */
+interface Journal {
+  readonly id: string;
+  readonly createdAt: number;
+  readonly mutations: ReadonlyArray<JournalMutation>;
+}
+
+const DEFAULT_JOURNAL_PREFIX = '_tx:';
+const DEFAULT_RECOVERY_AGE: Duration.DurationInput = '1 minute';
+
+/**
+ * Applies a journal's mutations in order
+ */
+const replay = (kv: KVService, journal: Journal) =>
+  Effect.forEach(
+    journal.mutations,
+    ({ key, value, options }) =>
+      value === null ? kv.delete(key) : kv.put(key, fromPortableValue(value), options),
+    { discard: true }
+  );
+
+/**
+ * Brings the absolute expirations of a leftover journal up to date before it is replayed
+ * Expirations closer than KV accepts are extended, and keys whose expiration has passed
+ * are deleted instead of written.
+ */
+const withCarriedExpirations = (journal: Journal, nowSeconds: number): Journal => ({
+  ...journal,
+  mutations: journal.mutations.map((mutation) =>
+    mutation.value === null || mutation.options?.expiration === undefined
+      ? mutation
+      : Option.match(carriedExpiration(mutation.options.expiration, nowSeconds), {
+          onNone: () => ({ ...mutation, value: null }),
+          onSome: (carried) => ({
+            ...mutation,
+            options: { ...mutation.options, expiration: carried },
+          }),
+        })
+  ),
+});
+
+/**
+ * Restores the values a journal's mutations replaced, in reverse order
+ * Values that have expired since they were replaced are deleted instead.
+ */
+const rollback = (kv: KVService, journal: Journal) =>
+  Effect.flatMap(Clock.currentTimeMillis, (now) =>
+    Effect.forEach(
+      [...journal.mutations].reverse(),
+      ({ key, before }) => {
+        const expiration = carriedExpiration(before?.expiration, Math.floor(now / 1000));
+        return before === null || Option.isNone(expiration)
+          ? kv.delete(key)
+          : kv.put(key, fromPortableValue(before.value), {
+              metadata: userMetadata(before.metadata),
+              expiration: expiration.value,
+            });
+      },
+      { discard: true }
+    )
+  );
+
+/**
+ * Reads the value a mutation replaces, with its expiration
+ * Reads do not return expirations, so the key is also looked up with list, where it sorts
+ * first among the keys it prefixes.
+ */
+const readBefore = (kv: KVService, key: string): Effect.Effect<JournalBefore | null, KVError> =>
+  Effect.map(
+    Effect.zip(kv.getArrayBufferWithMetadata(key), kv.list({ prefix: key, limit: 1 })),
+    ([before, listed]) =>
+      Option.match(before, {
+        onNone: () => null,
+        onSome: ({ value, metadata }) => ({
+          value: toPortableValue(value),
+          metadata,
+          expiration: listed.keys.find(({ name }) => name === key)?.expiration,
+        }),
+      })
+  );
+
+/**
+ * Runs a transaction body and commits its buffered mutations through a journal
+ * The journal, holding every mutation and the value it replaces, is written before anything
+ * else; the mutations are then applied in order and the journal deleted. If applying fails,
+ * the replaced values are restored; if that fails too, the journal is left for recovery.
+ * @internal
+ */
+export const runTransaction = <A, E, R>(
+  kv: KVService,
+  body: (tx: Transaction) => Effect.Effect<A, E, R>,
+  options: TransactionOptions = {}
+): Effect.Effect<A, E | KVError, R> =>
+  Effect.gen(function* () {
+    // Last mutation per key wins; Map keeps first-write order for applying
+    const pending = new Map<string, { value: PortableValue | null; options?: PutOptions }>();
+    const record = (key: string, value: PortableValue | null, putOptions?: PutOptions) =>
+      Effect.sync(() => {
+        pending.delete(key);
+        pending.set(key, { value, options: putOptions });
+      });
+
+    const get = (key: string) => {
+      const buffered = pending.get(key);
+      if (buffered === undefined) {
+        return kv.get(key);
+      }
+      return Effect.succeed(
+        Option.map(Option.fromNullable(buffered.value), (value) => {
+          const stored = fromPortableValue(value);
+          return typeof stored === 'string' ? stored : new TextDecoder().decode(stored);
+        })
+      );
+    };
+
+    const tx: Transaction = {
+      get,
+      getJSON: <T>(key: string) =>
+        Effect.flatMap(get(key), (value) =>
+          Effect.try({
+            try: () => Option.map(value, (text) => JSON.parse(text) as T),
+            catch: (cause) => new KVGetError({ key, cause }),
+          })
+        ),
+      put: (key, value, putOptions) => record(key, toPortableValue(value), putOptions),
+      putJSON: (key, value, putOptions) =>
+        pipe(
+          Effect.try({
+            try: () => JSON.stringify(value),
+            catch: (cause) => new KVPutError({ key, cause }),
+          }),
+          Effect.flatMap((json) => record(key, toPortableValue(json), putOptions))
+        ),
+      delete: (key) => record(key, null),
+    };
+
+    const result = yield* body(tx);
+    if (pending.size === 0) {
+      return result;
+    }
+
+    const mutations = yield* Effect.forEach(Array.from(pending), ([key, mutation]) =>
+      Effect.map(readBefore(kv, key), (before): JournalMutation => ({ key, ...mutation, before }))
+    );
+    const createdAt = yield* Clock.currentTimeMillis;
+    const journal: Journal = { id: crypto.randomUUID(), createdAt, mutations };
+    const prefix = options.journalPrefix ?? DEFAULT_JOURNAL_PREFIX;
+    const journalKey = `${prefix}${String(createdAt).padStart(15, '0')}:${journal.id}`;
+
+    // The journal holds each new value and the one it replaces, so it can be over the limit
+    // even when no single value is
+    const json = JSON.stringify(journal);
+    const size = new TextEncoder().encode(json).byteLength;
+    if (size > MAX_VALUE_BYTES) {
+      return yield* Effect.fail(
+        new KVValueTooLargeError({
+          key: journalKey,
+          part: 'journal',
+          size,
+          limit: MAX_VALUE_BYTES,
+        })
+      );
+    }
+    yield* kv.put(journalKey, json);
+    yield* Effect.catchAll(replay(kv, journal), (error) =>
+      pipe(
+        rollback(kv, journal),
+        Effect.zipRight(kv.delete(journalKey)),
+        Effect.ignoreLogged,
+        Effect.zipRight(Effect.fail(error))
+      )
+    );
+    yield* kv.delete(journalKey);
+    return result;
+  });
+
+/**
+ * Finds journals left by transactions that did not finish and replays or rolls them back
+ * @internal
+ */
+export const recoverTransactions = (
+  kv: KVService,
+  options: RecoveryOptions = {}
+): Effect.Effect<RecoveryResult, KVError> =>
+  Effect.gen(function* () {
+    const mode = options.mode ?? 'replay';
+    const now = yield* Clock.currentTimeMillis;
+    const cutoff = now - Duration.toMillis(options.olderThan ?? DEFAULT_RECOVERY_AGE);
+    let recovered = 0;
+
+    // Journal keys sort by creation time, so transactions are recovered in order
+    yield* pipe(
+      kv.listAll({ prefix: options.journalPrefix ?? DEFAULT_JOURNAL_PREFIX }),
+      Stream.runForEach(({ name }) =>
+        Effect.gen(function* () {
+          const journal = yield* kv.getJSON<Journal>(name);
+          if (Option.isNone(journal) || journal.value.createdAt > cutoff) {
+            return;
+          }
+          yield* mode === 'replay'
+            ? replay(kv, withCarriedExpirations(journal.value, Math.floor(now / 1000)))
+            : rollback(kv, journal.value);
+          yield* kv.delete(name);
+          recovered++;
+        })
+      )
+    );
+    return mode === 'replay'
+      ? { replayed: recovered, rolledBack: 0 }
+      : { replayed: 0, rolledBack: recovered };
+  });
@@ -20,6 +20,34 @@ export interface GetOptions {
   cacheTtl?: number;
 }
 
+/**
+ * Type a value can be read as
+ */
+export type GetType = NonNullable<GetOptions['type']>;
+
+/**
+ * Value returned for each GetType
+ */
+export interface GetValueTypes {
+  readonly text: string;
+  readonly json: unknown;
+  readonly arrayBuffer: ArrayBuffer;
+  readonly stream: ReadableStream;
+}
+
+/**
+ * Value returned by get for a type option (text when the type is omitted)
+ * A type only known at runtime gives the union of the possible values
+ */
+export type GetValue<T extends GetType | undefined> = T extends GetType ? GetValueTypes[T] : string;
+
+/**
+ * Get options with the value type narrowed to T
+ */
+export type TypedGetOptions<T extends GetType | undefined> = Omit<GetOptions, 'type'> & {
+  type?: T;
+};
+
 /**
  * Options for the put operation
  */
@@ -38,8 +66,79 @@ export interface PutOptions {
    * Metadata to store with the value (max 1024 bytes serialized)
    */
   metadata?: Record<string, unknown>;
+
+  /**
+   * Compress the value before storing it; reads decompress it transparently
+   */
+  compression?: CompressionFormat | CompressionOptions;
+}
+
+/**
+ * Options for storing a value split across several keys
+ */
+export interface ChunkedPutOptions extends PutOptions {
+  /**
+   * Maximum size of each chunk in bytes (default and maximum 25 MiB)
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Compression formats supported by CompressionStream
+ */
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/**
+ * Options for compressing stored values
+ */
+export interface CompressionOptions {
+  /**
+   * Compression format (default 'gzip')
+   */
+  format?: CompressionFormat;
+
+  /**
+   * Values smaller than this many bytes are stored uncompressed (default 1024)
+   * Streams are always compressed since their size is not known up front.
+   */
+  threshold?: number;
+}
+
+/**
+ * A value read together with the metadata stored alongside it
+ */
+export interface ValueWithMetadata<V, M = unknown> {
+  /**
+   * The stored value
+   */
+  value: V;
+
+  /**
+   * Metadata written with the value (null if none was stored)
+   */
+  metadata: M | null;
+
+  /**
+   * Cache status reported by the KV runtime (null if unavailable)
+   */
+  cacheStatus: string | null;
+}
+
+/**
+ * Options for operations that act on many keys at once
+ */
+export interface BatchOptions {
+  /**
+   * Maximum number of KV calls in flight at once (default 10)
+   */
+  concurrency?: number;
 }
 
+/**
+ * Options for storing many values at once
+ */
+export interface PutManyOptions extends PutOptions, BatchOptions {}
+
 /**
  * Options for the list operation
  */
@@ -60,6 +159,46 @@ export interface ListOptions {
   cursor?: string;
 }
 
+/**
+ * Options for listing every key across pages
+ */
+export interface ListAllOptions {
+  /**
+   * Prefix to filter keys
+   */
+  prefix?: string;
+
+  /**
+   * Number of keys to request per page (default 1000, max 1000)
+   */
+  pageSize?: number;
+
+  /**
+   * Maximum total number of keys to emit across all pages
+   */
+  maxKeys?: number;
+}
+
+/**
+ * A single key entry returned by a list operation
+ */
+export interface ListKey {
+  /**
+   * Name of the key
+   */
+  name: string;
+
+  /**
+   * Expiration timestamp (seconds since epoch), if set
+   */
+  expiration?: number;
+
+  /**
+   * Metadata stored with the key, if any
+   */
+  metadata?: unknown;
+}
+
 /**
  * Result of a list operation
  */
@@ -67,11 +206,7 @@ export interface ListResult {
   /**
    * Array of key metadata
    */
-  keys: Array<{
-    name: string;
-    expiration?: number;
-    metadata?: unknown;
-  }>;
+  keys: Array<ListKey>;
 
   /**
    * Cursor for the next page (undefined if no more results)
@@ -0,0 +1,264 @@
+import { Array as Arr, Clock, Context, Effect, Option, pipe, Schema } from 'effect';
+import { KVDecodeError, KVVersionError } from './errors.js';
+import { KV, type KVService } from './KV.js';
+import { jsonCodec } from './codec.js';
+import { ETAG } from './optimistic.js';
+import { carriedExpiration } from './portable.js';
+import {
+  decodeWith,
+  encodeWith,
+  makeTypedStore,
+  type TypedKV,
+  type TypedKVOptions,
+} from './schema.js';
+
+/**
+ * A single schema in a version chain, with a reader that upgrades its values to the
+ * current version of the chain
+ */
+interface SchemaVersion<V> {
+  /**
+   * Description of the schema, matched against the `_schema` metadata of stored values
+   */
+  readonly id: string;
+
+  /**
+   * Decodes a value stored with this version and migrates it to the current version
+   */
+  readonly read: (key: string, value: unknown) => Effect.Effect<V, KVDecodeError>;
+}
+
+/**
+ * An ordered chain of schemas, oldest first, where each version knows how to
+ * migrate its values to the next one. Version numbers start at 1.
+ */
+export interface VersionedSchema<V> {
+  /**
+   * Every version in the chain, oldest first
+   */
+  readonly versions: ReadonlyArray<SchemaVersion<V>>;
+
+  /**
+   * The current (latest) schema
+   */
+  readonly current: Schema.Schema<V>;
+
+  /**
+   * Version number of the current schema
+   */
+  readonly version: number;
+
+  /**
+   * Appends a new current schema to the chain
+   * @param schema - The schema of the new version
+   * @param migrate - Upgrades a value of the previous version to the new one
+   * @returns A chain whose current version is the given schema
+   */
+  readonly migrate: <W>(
+    schema: Schema.Schema<W>,
+    migrate: (value: V) => W | Effect.Effect<W>
+  ) => VersionedSchema<W>;
+}
+
+/**
+ * Options for versioned typed stores
+ */
+export interface VersionedKVOptions extends TypedKVOptions {
+  /**
+   * Store migrated values back under the current version when they are read, keeping the
+   * key's user metadata and expiration. Defaults to false.
+   */
+  readonly writeBack?: boolean;
+}
+
+/**
+ * Helper to check a migrated value against the type of its schema, failing with KVDecodeError
+ */
+const validateWith =
+  <V>(schema: Schema.Schema<V>) =>
+  (key: string, value: unknown): Effect.Effect<V, KVDecodeError> =>
+    Effect.mapError(
+      Schema.validate(schema)(value),
+      (cause) => new KVDecodeError({ key, cause, value })
+    );
+
+const makeVersionedSchema = <V>(
+  versions: ReadonlyArray<SchemaVersion<V>>,
+  current: Schema.Schema<V>
+): VersionedSchema<V> => ({
+  versions,
+  current,
+  version: versions.length,
+  migrate: <W>(schema: Schema.Schema<W>, migrate: (value: V) => W | Effect.Effect<W>) => {
+    // Migrations return values of the new type, so a wrong shape fails like a stored value
+    // that does not decode instead of reaching callers
+    const step = (key: string, value: V) => {
+      const result = migrate(value);
+      return Effect.flatMap(Effect.isEffect(result) ? result : Effect.succeed(result), (migrated) =>
+        validateWith(schema)(key, migrated)
+      );
+    };
+    return makeVersionedSchema<W>(
+      [
+        ...versions.map(({ id, read }) => ({
+          id,
+          read: (key: string, value: unknown) =>
+            Effect.flatMap(read(key, value), (upgraded) => step(key, upgraded)),
+        })),
+        { id: schema.ast.toString(), read: decodeWith(schema) },
+      ],
+      schema
+    );
+  },
+});
+
+/**
+ * Starts a version chain with its first schema (version 1)
+ * @param schema - The oldest schema
+ * @returns A chain that can be extended with `.migrate(nextSchema, upgrade)`
+ * @example
+ * ```typescript
+ * const UserV1 = Schema.Struct({ id: Schema.Number, name: Schema.String });
+ * const UserV2 = Schema.Struct({ id: Schema.Number, firstName: Schema.String, lastName: Schema.String });
+ *
+ * const UserVersions = versionedSchema(UserV1).migrate(UserV2, ({ id, name }) => {
+ *   const [firstName = '', lastName = ''] = name.split(' ');
+ *   return { id, firstName, lastName };
+ * });
+ * ```
+ */
+export const versionedSchema = <V>(schema: Schema.Schema<V>): VersionedSchema<V> =>
+  makeVersionedSchema([{ id: schema.ast.toString(), read: decodeWith(schema) }], schema);
+
+/**
+ * Helper to find the version a value was stored with from its metadata
+ * Values written by makeTypedKV carry only `_schema`, which is matched against the chain
+ */
+const resolveVersion = (
+  versions: ReadonlyArray<SchemaVersion<unknown>>,
+  metadata: unknown
+): Option.Option<number> => {
+  if (typeof metadata !== 'object' || metadata === null) {
+    return Option.none();
+  }
+  const { _version, _schema } = metadata as { _version?: unknown; _schema?: unknown };
+  if (_version !== undefined) {
+    return Option.liftPredicate(
+      _version,
+      (version): version is number =>
+        typeof version === 'number' &&
+        Number.isInteger(version) &&
+        version >= 1 &&
+        version <= versions.length
+    );
+  }
+  if (typeof _schema === 'string') {
+    return Option.map(
+      Arr.findLastIndex(versions, ({ id }) => id === _schema),
+      (index) => index + 1
+    );
+  }
+  return Option.none();
+};
+
+/**
+ * Creates a typed KV wrapper that upgrades values written with earlier schema versions
+ *
+ * Values are stored with `_version` metadata. On read the stored version is detected,
+ * the value is decoded with that version's schema and migrated step by step to the
+ * current shape. Values written by makeTypedKV are recognised through their `_schema`
+ * metadata. Values whose version cannot be resolved fail with KVVersionError.
+ * @param versioned - The version chain built with versionedSchema
+ * @param options - Optional write-back of migrated values and codec
+ * @param tag - KV tag of the namespace to use (defaults to KV)
+ * @returns TypedKV instance for the current version
+ * @example
+ * ```typescript
+ * const userKV = yield* makeVersionedKV(UserVersions, { writeBack: true });
+ * const user = yield* userKV.get('user:1'); // Option<UserV2>, even if stored as UserV1
+ * ```
+ */
+export const makeVersionedKV: {
+  <V>(
+    versioned: VersionedSchema<V>,
+    options?: VersionedKVOptions
+  ): Effect.Effect<TypedKV<V>, never, 'effect-kv/KV'>;
+  <V, Id extends string>(
+    versioned: VersionedSchema<V>,
+    options: VersionedKVOptions | undefined,
+    tag: Context.Tag<Id, KVService>
+  ): Effect.Effect<TypedKV<V>, never, Id>;
+} = <V, Id extends string>(
+  versioned: VersionedSchema<V>,
+  options?: VersionedKVOptions,
+  tag: Context.Tag<Id, KVService> = KV as unknown as Context.Tag<Id, KVService>
+): Effect.Effect<TypedKV<V>, never, Id> =>
+  Effect.map(tag, (kv) => {
+    const { versions, current, version: latest } = versioned;
+    const encode = encodeWith(current);
+    const metadata = { _schema: current.ast.toString(), _version: latest };
+
+    // The rewrite keeps the expiration listed for the key, and is skipped once it has passed
+    const writeBack = (key: string, value: V, storedMetadata: unknown) =>
+      Effect.gen(function* () {
+        const listed = yield* kv.list({ prefix: key, limit: 1 });
+        const now = Math.floor((yield* Clock.currentTimeMillis) / 1000);
+        const expiration = carriedExpiration(
+          listed.keys.find(({ name }) => name === key)?.expiration,
+          now
+        );
+        if (Option.isSome(expiration)) {
+          yield* store.put(key, value, {
+            metadata: withoutVersionMetadata(storedMetadata),
+            expiration: expiration.value,
+          });
+        }
+      });
+
+    const store: TypedKV<V> = makeTypedStore<V, KVDecodeError | KVVersionError>(kv, {
+      decode: (key, value, storedMetadata) =>
+        pipe(
+          resolveVersion(versions, storedMetadata),
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new KVVersionError({
+                  key,
+                  found: (storedMetadata as { _version?: unknown } | null)?._version,
+                  latest,
+                })
+              ),
+            onSome: (version) =>
+              version === latest
+                ? decodeWith(current)(key, value)
+                : pipe(
+                    versions[version - 1]!.read(key, value),
+                    Effect.tap((upgraded) =>
+                      options?.writeBack
+                        ? Effect.ignoreLogged(writeBack(key, upgraded, storedMetadata))
+                        : Effect.void
+                    )
+                  ),
+          })
+        ),
+      encode,
+      codec: options?.codec ?? jsonCodec,
+      metadata,
+      readsMetadata: true,
+    });
+
+    return store;
+  });
+
+/**
+ * Helper to keep the user-supplied part of stored metadata when rewriting a value
+ * The rewrite records its own version and codec, and is not an optimistic update, so the
+ * stored update token is dropped too.
+ */
+const withoutVersionMetadata = (metadata: unknown): Record<string, unknown> | undefined => {
+  if (typeof metadata !== 'object' || metadata === null) {
+    return undefined;
+  }
+  const { _version, _schema, _codec, [ETAG]: _etag, ...rest } = metadata as Record<string, unknown>;
+  return rest;
+};
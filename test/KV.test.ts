@@ -1,6 +1,6 @@
-import { Effect, Option, Schema } from 'effect';
+import { Chunk, Effect, Layer, Option, Schema, Stream } from 'effect';
 import { describe, expect, it, beforeEach } from 'vitest';
-import { KV, KVTest } from '../src';
+import { KV, KVMemory, KVTest, layerMemory } from '../src';
 import type { KVNamespace } from '@cloudflare/workers-types';
 
 // Mock KV namespace for unit testing
@@ -222,6 +222,164 @@ describe('KV Operations', () => {
   });
 });
 
+describe('getWithMetadata', () => {
+  it('should return value, metadata and cache status', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('flag', 'on', { metadata: { rollout: 50 } });
+      return yield* kv.getWithMetadata<{ rollout: number }>('flag');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual(
+      Option.some({ value: 'on', metadata: { rollout: 50 }, cacheStatus: null })
+    );
+  });
+
+  it('should return null metadata when none was stored', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('config', { theme: 'dark' });
+      const json = yield* kv.getJSONWithMetadata('config');
+      const buffer = yield* kv.getArrayBufferWithMetadata('config');
+      const stream = yield* kv.getStreamWithMetadata('config');
+      return { json, buffer, stream };
+    });
+
+    const { json, buffer, stream } = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory))
+    );
+
+    expect(json).toEqual(
+      Option.some({ value: { theme: 'dark' }, metadata: null, cacheStatus: null })
+    );
+    expect(Option.getOrThrow(buffer).value).toBeInstanceOf(ArrayBuffer);
+    expect(Option.getOrThrow(stream).value).toBeInstanceOf(ReadableStream);
+  });
+
+  it('should return None for non-existent key', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.getWithMetadata('missing');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual(Option.none());
+  });
+});
+
+describe('get with a type', () => {
+  it('should read the value as each requested type', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('config', { theme: 'dark' });
+      const text = yield* kv.get('config', { type: 'text' });
+      const json = yield* kv.get('config', { type: 'json' });
+      const buffer = yield* kv.get('config', { type: 'arrayBuffer' });
+      const stream = yield* kv.get('config', { type: 'stream' });
+      const streamed = yield* Effect.promise(() => new Response(Option.getOrThrow(stream)).text());
+      return { text, json, buffer, streamed };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.text).toEqual(Option.some('{"theme":"dark"}'));
+    expect(result.json).toEqual(Option.some({ theme: 'dark' }));
+    expect(new TextDecoder().decode(Option.getOrThrow(result.buffer))).toBe('{"theme":"dark"}');
+    expect(result.streamed).toBe('{"theme":"dark"}');
+  });
+
+  it('should apply the type to getOrFail and getOrElse', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('config', { theme: 'dark' });
+      const json = yield* kv.getOrFail('config', { type: 'json' });
+      const buffer = yield* kv.getOrFail('config', { type: 'arrayBuffer' });
+      const stream = yield* kv.getOrFail('config', { type: 'stream' });
+      const fallback = yield* kv.getOrElse('missing', { theme: 'light' }, { type: 'json' });
+      const missing = yield* Effect.flip(kv.getOrFail('missing', { type: 'arrayBuffer' }));
+      return { json, buffer, stream, fallback, missing };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.json).toEqual({ theme: 'dark' });
+    expect(result.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(result.stream).toBeInstanceOf(ReadableStream);
+    expect(result.fallback).toEqual({ theme: 'light' });
+    expect(result.missing._tag).toBe('KeyNotFoundError');
+  });
+
+  it('should return None for a missing key whatever the type', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* Effect.all(
+        (['text', 'json', 'arrayBuffer', 'stream'] as const).map((type) =>
+          kv.get('missing', { type })
+        )
+      );
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual([Option.none(), Option.none(), Option.none(), Option.none()]);
+  });
+});
+
+describe('listAll and keys', () => {
+  const seed = (kv: Effect.Effect.Success<typeof KV>, count: number) =>
+    Effect.forEach(
+      Array.from({ length: count }, (_, i) => `item:${String(i).padStart(3, '0')}`),
+      (key) => kv.put(key, 'value'),
+      { discard: true }
+    );
+
+  it('should stream keys across every page', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* seed(kv, 25);
+      yield* kv.put('other', 'value');
+      return yield* Stream.runCollect(kv.listAll({ prefix: 'item:', pageSize: 10 }));
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.size(result)).toBe(25);
+    expect(Chunk.unsafeHead(result).name).toBe('item:000');
+    expect(Chunk.unsafeLast(result).name).toBe('item:024');
+  });
+
+  it('should stop after the maximum number of keys', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* seed(kv, 25);
+      return yield* Stream.runCollect(kv.listAll({ pageSize: 10, maxKeys: 12 }));
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.toReadonlyArray(result).map((k) => k.name)).toEqual(
+      Array.from({ length: 12 }, (_, i) => `item:${String(i).padStart(3, '0')}`)
+    );
+  });
+
+  it('should collect key names under a prefix', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('session:a', 'value');
+      yield* kv.put('session:b', 'value');
+      yield* kv.put('cache:a', 'value');
+      return yield* kv.keys('session:');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.toReadonlyArray(result)).toEqual(['session:a', 'session:b']);
+  });
+});
+
 describe('Schema Validation', () => {
   let mockNamespace: KVNamespace;
 
@@ -262,6 +420,163 @@ describe('Schema Validation', () => {
 
     expect(result).toEqual(Option.none());
   });
+
+  it('should fail with KVDecodeError carrying the stored value', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('user:corrupt', { id: 'not-a-number' });
+      const typedKV = yield* KV(UserSchema);
+      return yield* Effect.flip(typedKV.get('user:corrupt'));
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVTest(mockNamespace))));
+
+    expect(error._tag).toBe('KVDecodeError');
+    if (error._tag === 'KVDecodeError') {
+      expect(error.key).toBe('user:corrupt');
+      expect(error.value).toEqual({ id: 'not-a-number' });
+      expect(error.cause._tag).toBe('ParseError');
+    }
+  });
+
+  it('should fail with KVDecodeError when the stored value is not JSON', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('user:broken', '{"id": 1,');
+      const typedKV = yield* KV(UserSchema);
+      const get = yield* Effect.flip(typedKV.get('user:broken'));
+      const getMany = yield* Effect.flip(typedKV.getMany(['user:broken']));
+      return { get, getMany };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVTest(mockNamespace))));
+
+    expect(result.get).toMatchObject({ _tag: 'KVDecodeError', key: 'user:broken' });
+    expect(result.getMany).toMatchObject({
+      _tag: 'KVBatchError',
+      failures: [{ key: 'user:broken', error: { _tag: 'KVDecodeError' } }],
+    });
+  });
+
+  it('should fail with KVEncodeError when the value does not match the schema', async () => {
+    const program = Effect.gen(function* () {
+      const typedKV = yield* KV(UserSchema);
+      return yield* Effect.flip(typedKV.put('user:1', { id: 1 } as User));
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVTest(mockNamespace))));
+
+    expect(error._tag).toBe('KVEncodeError');
+  });
+
+  it('should fail getOrFail with KeyNotFoundError', async () => {
+    const program = Effect.gen(function* () {
+      const typedKV = yield* KV(UserSchema);
+      return yield* typedKV.getOrFail('user:missing');
+    }).pipe(
+      Effect.catchTag('KeyNotFoundError', (error) => Effect.succeed(`missing ${error.key}`)),
+      Effect.catchTag('KVDecodeError', () => Effect.succeed('corrupt'))
+    );
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVTest(mockNamespace))));
+
+    expect(result).toBe('missing user:missing');
+  });
+
+  it('should validate the default value in getOrElse', async () => {
+    const program = Effect.gen(function* () {
+      const typedKV = yield* KV(UserSchema);
+      return yield* typedKV.getOrElse('user:missing', { id: 0, name: 'Guest', email: 'none' });
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVTest(mockNamespace))));
+
+    expect(result).toEqual({ id: 0, name: 'Guest', email: 'none' });
+  });
+});
+
+describe('Schema Validation with metadata', () => {
+  const FlagSchema = Schema.Struct({ enabled: Schema.Boolean });
+  const RolloutSchema = Schema.Struct({ rollout: Schema.Number });
+
+  it('should decode value and metadata with their schemas', async () => {
+    const program = Effect.gen(function* () {
+      const flagKV = yield* KV(FlagSchema);
+      yield* flagKV.put('flag:beta', { enabled: true }, { metadata: { rollout: 25 } });
+      return yield* flagKV.getWithMetadata('flag:beta', RolloutSchema);
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Option.getOrThrow(result).value).toEqual({ enabled: true });
+    expect(Option.getOrThrow(result).metadata).toEqual({ rollout: 25 });
+  });
+
+  it('should fail when metadata does not match its schema', async () => {
+    const program = Effect.gen(function* () {
+      const flagKV = yield* KV(FlagSchema);
+      yield* flagKV.put('flag:beta', { enabled: true }, { metadata: { rollout: 'half' } });
+      return yield* flagKV.getWithMetadata('flag:beta', RolloutSchema);
+    });
+
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(KVMemory)));
+
+    expect(exit._tag).toBe('Failure');
+  });
+});
+
+describe('Multiple namespaces', () => {
+  const Sessions = KV.Tag('Sessions');
+  const Cache = KV.Tag('Cache');
+
+  const layer = Layer.mergeAll(KVMemory, layerMemory(Sessions), layerMemory(Cache));
+
+  it('should keep named namespaces separate', async () => {
+    const program = Effect.gen(function* () {
+      const sessions = yield* Sessions;
+      const cache = yield* Cache;
+      const kv = yield* KV;
+      yield* sessions.put('id', 'session');
+      yield* cache.put('id', 'cache');
+      return {
+        session: yield* sessions.get('id'),
+        cached: yield* cache.get('id'),
+        default: yield* kv.get('id'),
+      };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+    expect(result).toEqual({
+      session: Option.some('session'),
+      cached: Option.some('cache'),
+      default: Option.none(),
+    });
+  });
+
+  it('should support schema-typed stores on named namespaces', async () => {
+    const SessionSchema = Schema.Struct({ userId: Schema.Number });
+
+    const program = Effect.gen(function* () {
+      const sessionKV = yield* Sessions(SessionSchema);
+      yield* sessionKV.put('session:1', { userId: 42 });
+      const cache = yield* Cache;
+      return {
+        session: yield* sessionKV.get('session:1'),
+        cached: yield* cache.get('session:1'),
+      };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+    expect(result.session).toEqual(Option.some({ userId: 42 }));
+    expect(result.cached).toEqual(Option.none());
+  });
+
+  it('should use distinct tag keys', () => {
+    expect(Sessions.key).toBe('effect-kv/KV/Sessions');
+    expect(KV.key).toBe('effect-kv/KV');
+  });
 });
 
 describe('Error Handling', () => {
@@ -0,0 +1,206 @@
+import { Effect, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory, KVTest } from '../src';
+import type { KVNamespace } from '@cloudflare/workers-types';
+
+// Namespace with single-key reads only, failing for keys that start with "bad"
+const createSingleKeyKV = (values: Record<string, string>) => {
+  const calls: Array<unknown> = [];
+  const namespace = {
+    get: async (key: unknown) => {
+      calls.push(key);
+      if (typeof key !== 'string') return null;
+      if (key.startsWith('bad')) throw new Error(`cannot read ${key}`);
+      return values[key] ?? null;
+    },
+    put: async (key: string) => {
+      if (key.startsWith('bad')) throw new Error(`cannot write ${key}`);
+    },
+    delete: async () => {},
+  } as unknown as KVNamespace;
+  return { namespace, calls };
+};
+
+describe('Bulk operations', () => {
+  describe('getMany', () => {
+    it('should read many keys with multi-key gets', async () => {
+      const keys = Array.from({ length: 150 }, (_, i) => `key:${i}`);
+
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putMany(keys.slice(0, 140).map((key) => [key, `value-${key}`] as const));
+        return yield* kv.getMany(keys);
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+      expect(result.size).toBe(150);
+      expect(result.get('key:0')).toEqual(Option.some('value-key:0'));
+      expect(result.get('key:139')).toEqual(Option.some('value-key:139'));
+      expect(result.get('key:145')).toEqual(Option.none());
+    });
+
+    it('should fall back to single-key reads when multi-key get is unavailable', async () => {
+      const kv = createSingleKeyKV({ a: '1', b: '2' });
+
+      const program = Effect.gen(function* () {
+        const service = yield* KV;
+        return yield* service.getMany(['a', 'b', 'c']);
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(KVTest(kv.namespace))));
+
+      expect(result).toEqual(
+        new Map([
+          ['a', Option.some('1')],
+          ['b', Option.some('2')],
+          ['c', Option.none()],
+        ])
+      );
+      expect(kv.calls).toEqual([['a', 'b', 'c'], 'a', 'b', 'c']);
+    });
+
+    it('should report every failed key in a KVBatchError', async () => {
+      const kv = createSingleKeyKV({ a: '1' });
+
+      const program = Effect.gen(function* () {
+        const service = yield* KV;
+        return yield* Effect.flip(service.getMany(['a', 'bad-1', 'bad-2']));
+      });
+
+      const error = await Effect.runPromise(program.pipe(Effect.provide(KVTest(kv.namespace))));
+
+      expect(error._tag).toBe('KVBatchError');
+      if (error._tag === 'KVBatchError') {
+        expect(error.operation).toBe('get');
+        expect(error.failures.map((failure) => failure.key)).toEqual(['bad-1', 'bad-2']);
+        expect(error.failures[0]!.error._tag).toBe('KVGetError');
+      }
+    });
+
+    it('should fail every key of a failed multi-key get instead of reading them one by one', async () => {
+      const calls: Array<unknown> = [];
+      const namespace = {
+        getWithMetadata: async (key: unknown) => {
+          calls.push(key);
+          throw new Error('KV GET failed: 500 Internal Server Error');
+        },
+      } as unknown as KVNamespace;
+
+      const error = await Effect.runPromise(
+        Effect.flatMap(KV, (service) => Effect.flip(service.getMany(['a', 'b']))).pipe(
+          Effect.provide(KVTest(namespace))
+        )
+      );
+
+      expect(error._tag).toBe('KVBatchError');
+      if (error._tag === 'KVBatchError') {
+        expect(error.failures).toMatchObject([
+          { key: 'a', error: { _tag: 'KVGetError', key: 'a' } },
+          { key: 'b', error: { _tag: 'KVGetError', key: 'b' } },
+        ]);
+      }
+      expect(calls).toEqual([['a', 'b']]);
+    });
+  });
+
+  describe('putMany and deleteMany', () => {
+    it('should write and delete many keys', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putMany(
+          [
+            ['a', '1'],
+            ['b', '2'],
+            ['c', '3'],
+          ],
+          { concurrency: 2, metadata: { batch: true } }
+        );
+        const listed = yield* kv.list();
+        yield* kv.deleteMany(['a', 'c']);
+        const remaining = yield* kv.list();
+        return { listed, remaining };
+      });
+
+      const { listed, remaining } = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+      expect(listed.keys).toEqual([
+        { name: 'a', metadata: { batch: true } },
+        { name: 'b', metadata: { batch: true } },
+        { name: 'c', metadata: { batch: true } },
+      ]);
+      expect(remaining.keys.map((k) => k.name)).toEqual(['b']);
+    });
+
+    it('should attempt every entry before reporting failures', async () => {
+      const kv = createSingleKeyKV({});
+
+      const program = Effect.gen(function* () {
+        const service = yield* KV;
+        return yield* Effect.flip(
+          service.putMany([
+            ['bad-1', 'x'],
+            ['good', 'y'],
+            ['bad-2', 'z'],
+          ])
+        );
+      });
+
+      const error = await Effect.runPromise(program.pipe(Effect.provide(KVTest(kv.namespace))));
+
+      expect(error._tag).toBe('KVBatchError');
+      if (error._tag === 'KVBatchError') {
+        expect(error.operation).toBe('put');
+        expect(error.failures.map((failure) => failure.key)).toEqual(['bad-1', 'bad-2']);
+      }
+    });
+  });
+
+  describe('typed', () => {
+    const UserSchema = Schema.Struct({ id: Schema.Number, name: Schema.String });
+
+    it('should put and get many validated values', async () => {
+      const program = Effect.gen(function* () {
+        const userKV = yield* KV(UserSchema);
+        yield* userKV.putMany([
+          ['user:1', { id: 1, name: 'Alice' }],
+          ['user:2', { id: 2, name: 'Bob' }],
+        ]);
+        const users = yield* userKV.getMany(['user:1', 'user:2', 'user:3']);
+        yield* userKV.deleteMany(['user:1']);
+        const afterDelete = yield* userKV.get('user:1');
+        return { users, afterDelete };
+      });
+
+      const { users, afterDelete } = await Effect.runPromise(
+        program.pipe(Effect.provide(KVMemory))
+      );
+
+      expect(users).toEqual(
+        new Map([
+          ['user:1', Option.some({ id: 1, name: 'Alice' })],
+          ['user:2', Option.some({ id: 2, name: 'Bob' })],
+          ['user:3', Option.none()],
+        ])
+      );
+      expect(afterDelete).toEqual(Option.none());
+    });
+
+    it('should report values that fail validation per key', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putJSON('user:1', { id: 1, name: 'Alice' });
+        yield* kv.putJSON('user:2', { id: 'two' });
+        const userKV = yield* KV(UserSchema);
+        return yield* Effect.flip(userKV.getMany(['user:1', 'user:2']));
+      });
+
+      const error = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+      expect(error._tag).toBe('KVBatchError');
+      if (error._tag === 'KVBatchError') {
+        expect(error.failures.map((failure) => failure.key)).toEqual(['user:2']);
+      }
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { Deferred, Effect, Fiber, Option, Schema, TestClock, TestContext } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory } from '../src';
+
+class UpstreamError extends Schema.TaggedError<UpstreamError>()('UpstreamError', {
+  status: Schema.Number,
+}) {}
+
+const User = Schema.Struct({ id: Schema.Number, name: Schema.String });
+
+describe('Read-through caching', () => {
+  it('should compute on a miss and serve the cached value afterwards', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => {
+      calls++;
+      return { id: 1, name: 'Ada' };
+    });
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const first = yield* kv.cached('user:1', compute, { expirationTtl: 300 });
+      const second = yield* kv.cached('user:1', compute, { expirationTtl: 300 });
+      const stored = yield* kv.getJSON('user:1');
+      return { first, second, stored };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(1);
+    expect(result.first).toEqual({ id: 1, name: 'Ada' });
+    expect(result.second).toEqual({ id: 1, name: 'Ada' });
+    expect(result.stored).toEqual(Option.some({ id: 1, name: 'Ada' }));
+  });
+
+  it('should deduplicate concurrent misses for the same key', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => calls++).pipe(
+      Effect.zipRight(Effect.sleep('10 millis')),
+      Effect.as({ id: 2, name: 'Grace' })
+    );
+
+    const program = Effect.gen(function* () {
+      const userKV = yield* KV(User);
+      return yield* Effect.all(
+        Array.from({ length: 5 }, () => userKV.cached('user:2', compute)),
+        { concurrency: 'unbounded' }
+      );
+    });
+
+    const results = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(1);
+    expect(results).toEqual(Array.from({ length: 5 }, () => ({ id: 2, name: 'Grace' })));
+  });
+
+  it('should deduplicate misses across scoped views of the same keys', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => calls++).pipe(
+      Effect.zipRight(Effect.sleep('10 millis')),
+      Effect.as({ id: 3, name: 'Edsger' })
+    );
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* Effect.all(
+        [
+          kv.scoped('tenant:1:').cached('user:3', compute),
+          kv.scoped('tenant:1:').cached('user:3', compute),
+          kv.scoped('tenant:').scoped('1:').cached('user:3', compute),
+          kv.cached('tenant:1:user:3', compute),
+        ],
+        { concurrency: 'unbounded' }
+      );
+    });
+
+    const results = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(1);
+    expect(results).toEqual(Array.from({ length: 4 }, () => ({ id: 3, name: 'Edsger' })));
+  });
+
+  it('should keep shared computations running when the caller that started them is interrupted', async () => {
+    let calls = 0;
+    const program = Effect.gen(function* () {
+      const started = yield* Deferred.make<void>();
+      const release = yield* Deferred.make<void>();
+      const compute = Effect.sync(() => calls++).pipe(
+        Effect.zipRight(Deferred.succeed(started, undefined)),
+        Effect.zipRight(Deferred.await(release)),
+        Effect.as({ id: 6, name: 'Alan' })
+      );
+      const userKV = yield* KV(User);
+      const first = yield* Effect.fork(userKV.cached('user:6', compute));
+      yield* Deferred.await(started);
+      const second = yield* Effect.fork(userKV.cached('user:6', compute));
+      yield* Fiber.interrupt(first);
+      yield* Deferred.succeed(release, undefined);
+      return yield* Fiber.join(second);
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(1);
+    expect(result).toEqual({ id: 6, name: 'Alan' });
+  });
+
+  it('should not share computations between typed and raw reads of a key', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => calls++).pipe(
+      Effect.zipRight(Effect.sleep('10 millis')),
+      Effect.as({ id: 4, name: 'Barbara' })
+    );
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const userKV = yield* KV(User);
+      return yield* Effect.all([kv.cached('user:4', compute), userKV.cached('user:4', compute)], {
+        concurrency: 'unbounded',
+      });
+    });
+
+    await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(2);
+  });
+
+  it('should validate cached values with the schema', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('user:3', { id: 'three' });
+      const userKV = yield* KV(User);
+      return yield* Effect.flip(userKV.cached('user:3', Effect.succeed({ id: 3, name: 'x' })));
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(error._tag).toBe('KVDecodeError');
+  });
+
+  it('should cache failures matching the failure schema', async () => {
+    let calls = 0;
+    const compute = Effect.suspend(() => {
+      calls++;
+      return Effect.fail(new UpstreamError({ status: 404 }));
+    });
+
+    const program = Effect.gen(function* () {
+      const userKV = yield* KV(User);
+      const options = { failure: { schema: UpstreamError, expirationTtl: 60 } };
+      const first = yield* Effect.flip(userKV.cached('user:4', compute, options));
+      const second = yield* Effect.flip(userKV.cached('user:4', compute, options));
+      return { first, second };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(1);
+    expect(result.first).toEqual(new UpstreamError({ status: 404 }));
+    expect(result.second).toEqual(new UpstreamError({ status: 404 }));
+  });
+
+  it('should reject metadata that sets the markers of cached values', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => {
+      calls++;
+      return { id: 7, name: 'Kathleen' };
+    });
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const cached = yield* Effect.flip(
+        kv.cached('user:7', compute, { metadata: { _cached: 'failure' } })
+      );
+      const swr = yield* Effect.flip(
+        kv.staleWhileRevalidate('user:7', compute, {
+          freshFor: '1 minute',
+          staleFor: '1 hour',
+          metadata: { _freshUntil: 0 },
+        })
+      );
+      return { cached, swr, stored: yield* kv.get('user:7') };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(0);
+    expect(result.cached.message).toContain('Metadata key "_cached" is reserved');
+    expect(result.swr.message).toContain('Metadata key "_freshUntil" is reserved');
+    expect(result.stored).toEqual(Option.none());
+  });
+
+  it('should not cache failures without failure options', async () => {
+    let calls = 0;
+    const compute = Effect.suspend(() => {
+      calls++;
+      return Effect.fail(new UpstreamError({ status: 500 }));
+    });
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* Effect.flip(kv.cached('user:5', compute));
+      yield* Effect.flip(kv.cached('user:5', compute));
+      return yield* kv.get('user:5');
+    });
+
+    const stored = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(calls).toBe(2);
+    expect(stored).toEqual(Option.none());
+  });
+});
+
+describe('Stale-while-revalidate', () => {
+  const options = { freshFor: '1 minute', staleFor: '10 minutes' } as const;
+
+  it('should report missing, fresh and stale values and refresh stale ones', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => ++calls);
+    const pending: Array<Promise<unknown>> = [];
+    const waitUntil = (promise: Promise<unknown>) => {
+      pending.push(promise);
+    };
+
+    const program = Effect.gen(function* () {
+      const counterKV = yield* KV(Schema.Number);
+      const read = () =>
+        counterKV.staleWhileRevalidate('counter', compute, { ...options, waitUntil });
+      const missing = yield* read();
+      const fresh = yield* read();
+      yield* TestClock.adjust('2 minutes');
+      const stale = yield* read();
+      yield* Effect.promise(() => Promise.all(pending));
+      const refreshed = yield* read();
+      return { missing, fresh, stale, refreshed };
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+    expect(result.missing).toEqual({ value: 1, status: 'missing' });
+    expect(result.fresh).toEqual({ value: 1, status: 'fresh' });
+    expect(result.stale).toEqual({ value: 1, status: 'stale' });
+    expect(result.refreshed).toEqual({ value: 2, status: 'fresh' });
+    expect(pending).toHaveLength(1);
+  });
+
+  it('should stop serving stale values once the stale window has passed', async () => {
+    let calls = 0;
+    const compute = Effect.sync(() => ++calls);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.staleWhileRevalidate('counter', compute, options);
+      yield* TestClock.adjust('12 minutes');
+      return yield* kv.staleWhileRevalidate('counter', compute, options);
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+    expect(result).toEqual({ value: 2, status: 'missing' });
+  });
+});
@@ -0,0 +1,208 @@
+import { Effect, Exit, Option } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, layerFromNamespace, makeMemoryNamespace } from '../src';
+import { runWithNamespace } from './helpers';
+
+const bytes = Uint8Array.from({ length: 2500 }, (_, i) => (i * 7) % 251);
+
+/**
+ * Helper to read a stream into bytes
+ */
+const collect = (stream: ReadableStream) =>
+  Effect.promise(async () => new Uint8Array(await new Response(stream).arrayBuffer()));
+
+describe('Chunked storage', () => {
+  it('should split a value across chunk keys and reassemble it on read', async () => {
+    const { namespace, result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putChunked('blob', bytes.slice().buffer, {
+          chunkSize: 1000,
+          metadata: { owner: 'ada' },
+        });
+        const stream = yield* kv.getStream('blob');
+        const streamed = yield* collect(Option.getOrThrow(stream));
+        const buffer = yield* kv.getArrayBuffer('blob');
+        const withMetadata = yield* kv.getStreamWithMetadata('blob');
+        return { streamed, buffer, metadata: Option.map(withMetadata, (entry) => entry.metadata) };
+      })
+    );
+
+    const names = (await namespace.list()).keys.map((key) => key.name);
+    const generation = names[1]!.slice('blob#'.length, -':0'.length);
+    expect(names).toEqual(['blob', ...[0, 1, 2].map((index) => `blob#${generation}:${index}`)]);
+    const chunk = await namespace.get(names[3]!, 'arrayBuffer');
+    expect(chunk!.byteLength).toBe(500);
+
+    expect(result.streamed).toEqual(bytes);
+    expect(new Uint8Array(Option.getOrThrow(result.buffer))).toEqual(bytes);
+    expect(result.metadata).toEqual(Option.some({ owner: 'ada' }));
+    expect((await namespace.list()).keys[0]!.metadata).toEqual({
+      owner: 'ada',
+      _chunks: { generation, count: 3 },
+    });
+  });
+
+  it('should chunk streams and text, with compression', async () => {
+    const text = 'chunked '.repeat(500);
+    const { result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putChunked('stream', new Blob([bytes]).stream(), { chunkSize: 512 });
+        yield* kv.putChunked('text', text, { chunkSize: 64, compression: 'gzip' });
+        const stream = yield* kv.getStream('stream');
+        return {
+          streamed: yield* collect(Option.getOrThrow(stream)),
+          text: yield* kv.get('text'),
+        };
+      })
+    );
+
+    expect(result.streamed).toEqual(bytes);
+    expect(result.text).toEqual(Option.some(text));
+  });
+
+  it('should give every chunk the expiration of the manifest', async () => {
+    // The second chunk arrives over a second later, after the clock has moved on
+    const slow = new ReadableStream<Uint8Array>({
+      start: (controller) => controller.enqueue(bytes.slice(0, 1000)),
+      pull: async (controller) => {
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        controller.enqueue(bytes.slice(1000, 2000));
+        controller.close();
+      },
+    });
+    const { namespace } = await runWithNamespace(
+      Effect.flatMap(KV, (kv) =>
+        kv.putChunked('blob', slow, { chunkSize: 1000, expirationTtl: 600 })
+      )
+    );
+
+    const expirations = (await namespace.list()).keys.map(({ expiration }) => expiration);
+    expect(expirations).toHaveLength(3);
+    expect(new Set(expirations).size).toBe(1);
+  });
+
+  it('should delete every chunk and drop leftovers when a value shrinks', async () => {
+    const { namespace } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putChunked('big', bytes.slice().buffer, { chunkSize: 500 });
+        yield* kv.putChunked('big', bytes.slice(0, 700).buffer, { chunkSize: 500 });
+        yield* kv.putChunked('gone', bytes.slice().buffer, { chunkSize: 1000 });
+        yield* kv.delete('gone');
+      })
+    );
+
+    const names = (await namespace.list()).keys.map((key) => key.name);
+    expect(names).toHaveLength(3);
+    expect(names[0]).toBe('big');
+    expect(names.slice(1)).toEqual([
+      expect.stringMatching(/^big#\w+:0$/),
+      expect.stringMatching(/^big#\w+:1$/),
+    ]);
+  });
+
+  it('should keep the previous value readable when a rewrite fails part way', async () => {
+    const failing = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(bytes.slice(0, 1200));
+        controller.error(new Error('upstream closed'));
+      },
+    });
+    const { result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putChunked('blob', bytes.slice().buffer, { chunkSize: 1000 });
+        const failure = yield* Effect.flip(kv.putChunked('blob', failing, { chunkSize: 1000 }));
+        const buffer = yield* kv.getArrayBuffer('blob');
+        return { failure, buffer };
+      })
+    );
+
+    expect(result.failure._tag).toBe('KVPutError');
+    expect(new Uint8Array(Option.getOrThrow(result.buffer))).toEqual(bytes);
+  });
+
+  it('should fail reads when a chunk is missing or corrupt', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const layer = layerFromNamespace(namespace);
+    await Effect.runPromise(
+      Effect.flatMap(KV, (kv) =>
+        kv.putChunked('blob', bytes.slice().buffer, { chunkSize: 1000 })
+      ).pipe(Effect.provide(layer))
+    );
+    const chunks = (await namespace.list()).keys.map((key) => key.name).slice(1);
+    await namespace.put(chunks[1]!, new Uint8Array(1000).buffer);
+
+    const exit = await Effect.runPromiseExit(
+      Effect.flatMap(KV, (kv) => kv.getArrayBuffer('blob')).pipe(Effect.provide(layer))
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
+  it('should reject metadata that sets storage markers', async () => {
+    const { namespace, result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const put = yield* Effect.flip(
+          kv.put('fake', 'value', { metadata: { _chunks: { generation: 'x', count: 2 } } })
+        );
+        const chunked = yield* Effect.flip(
+          kv.putChunked('blob', 'value', { metadata: { _compression: 'gzip' } })
+        );
+        return { put, chunked };
+      })
+    );
+
+    expect(result.put.message).toContain('Metadata key "_chunks" is reserved');
+    expect(result.chunked.message).toContain('Metadata key "_compression" is reserved');
+    expect((await namespace.list()).keys).toEqual([]);
+  });
+
+  it('should round-trip metadata read back from a stored value', async () => {
+    const { result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('report', 'x'.repeat(5000), {
+          compression: 'gzip',
+          metadata: { _version: 2, _etag: 'e1' },
+        });
+        const stored = Option.getOrThrow(
+          yield* kv.getWithMetadata<Record<string, unknown>>('report')
+        );
+        yield* kv.put('copy', stored.value, { metadata: stored.metadata ?? undefined });
+        return yield* kv.getWithMetadata('copy');
+      })
+    );
+
+    expect(result).toEqual(
+      Option.some({
+        value: 'x'.repeat(5000),
+        metadata: { _version: 2, _etag: 'e1' },
+        cacheStatus: null,
+      })
+    );
+  });
+
+  it('should reject oversized values and metadata before writing', async () => {
+    const { result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const metadata = yield* Effect.flip(
+          kv.put('meta', 'value', { metadata: { note: 'x'.repeat(2000) } })
+        );
+        const value = yield* Effect.flip(kv.put('huge', new ArrayBuffer(25 * 1024 * 1024 + 1)));
+        return { metadata, value };
+      })
+    );
+
+    expect(result.metadata).toMatchObject({
+      _tag: 'KVValueTooLargeError',
+      part: 'metadata',
+      limit: 1024,
+    });
+    expect(result.value).toMatchObject({ _tag: 'KVValueTooLargeError', part: 'value' });
+    expect(result.value.message).toContain('putChunked');
+  });
+});
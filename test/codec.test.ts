@@ -0,0 +1,123 @@
+import { Effect, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { bytesCodec, KV, KVMemory, msgpackCodec } from '../src';
+
+const Thumbnail = Schema.Struct({
+  id: Schema.BigIntFromSelf,
+  takenAt: Schema.DateFromSelf,
+  pixels: Schema.Uint8ArrayFromSelf,
+});
+
+const pixels = Uint8Array.from({ length: 3000 }, (_, i) => (i * 31) % 256);
+const thumbnail = { id: 2n ** 63n - 1n, takenAt: new Date('2026-05-04T03:02:01.123Z'), pixels };
+
+describe('Codecs', () => {
+  it('should store binary fields as raw bytes with the msgpack codec', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const thumbnails = yield* KV(Thumbnail, { codec: msgpackCodec });
+      yield* thumbnails.put('thumb:1', thumbnail);
+      const read = yield* thumbnails.get('thumb:1');
+      const stored = yield* kv.getArrayBufferWithMetadata('thumb:1');
+      return { read, stored };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.read).toEqual(Option.some(thumbnail));
+    const stored = Option.getOrThrow(result.stored);
+    expect(stored.value.byteLength).toBeLessThan(pixels.length + 100);
+    expect(stored.metadata).toMatchObject({ _codec: 'msgpack' });
+  });
+
+  it('should round-trip plain values through msgpack', async () => {
+    const value = {
+      small: [0, 1, 127, 128, 255, 256, 65535, 65536, 2 ** 32 - 1, 2 ** 40],
+      negative: [-1, -32, -33, -128, -129, -32768, -32769, -(2 ** 31), -(2 ** 40)],
+      floats: [0.5, -1.25, Number.MAX_VALUE],
+      strings: ['', 'é', 'x'.repeat(31), 'y'.repeat(300), 'z'.repeat(70000)],
+      nested: { list: Array.from({ length: 20 }, (_, i) => ({ i, on: i % 2 === 0 })) },
+      nothing: null,
+    };
+    const program = Effect.gen(function* () {
+      const store = yield* KV(Schema.Unknown, { codec: msgpackCodec });
+      yield* store.put('value', { ...value, dropped: undefined });
+      return yield* store.get('value');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual(Option.some(value));
+  });
+
+  it('should store Uint8Array values as they are with the bytes codec', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const blobs = yield* KV(Schema.Uint8ArrayFromSelf, { codec: bytesCodec });
+      yield* blobs.put('blob', pixels);
+      const read = yield* blobs.get('blob');
+      const raw = yield* kv.getArrayBuffer('blob');
+      return { read, raw };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.read).toEqual(Option.some(pixels));
+    expect(result.raw.pipe(Option.map((buffer) => new Uint8Array(buffer)))).toEqual(
+      Option.some(pixels)
+    );
+  });
+
+  it('should serialize with a custom codec even when it is named json', async () => {
+    const Counter = Schema.Struct({ count: Schema.Number });
+    const reverse = (text: string) => text.split('').reverse().join('');
+    const reversedJSON = {
+      name: 'json',
+      encode: (value: unknown) => reverse(JSON.stringify(value)),
+      decode: (bytes: Uint8Array) => JSON.parse(reverse(new TextDecoder().decode(bytes))),
+    };
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const counters = yield* KV(Counter, { codec: reversedJSON });
+      yield* counters.put('counter', { count: 1 });
+      const read = yield* counters.get('counter');
+      const raw = yield* kv.get('counter');
+      return { read, raw };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.read).toEqual(Option.some({ count: 1 }));
+    expect(result.raw).toEqual(Option.some('}1:"tnuoc"{'));
+  });
+
+  it('should fail with KVCodecError when a value was written with another codec', async () => {
+    const Counter = Schema.Struct({ count: Schema.Number });
+    const program = Effect.gen(function* () {
+      const json = yield* KV(Counter);
+      const packed = yield* KV(Counter, { codec: msgpackCodec });
+      yield* json.put('plain', { count: 1 });
+      yield* packed.put('packed', { count: 2 });
+      const readJSON = yield* Effect.flip(packed.get('plain'));
+      const readPacked = yield* Effect.flip(json.getWithMetadata('packed'));
+      const modified = yield* Effect.flip(json.modify('packed', () => ({ count: 3 })));
+      const readMany = yield* Effect.flip(json.getMany(['plain', 'packed']));
+      return { readJSON, readPacked, modified, readMany };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.readJSON).toMatchObject({
+      _tag: 'KVCodecError',
+      key: 'plain',
+      expected: 'msgpack',
+      found: 'json',
+    });
+    expect(result.readPacked).toMatchObject({ _tag: 'KVCodecError', found: 'msgpack' });
+    expect(result.modified).toMatchObject({ _tag: 'KVCodecError' });
+    expect(result.readMany).toMatchObject({
+      _tag: 'KVBatchError',
+      failures: [{ key: 'packed', error: { _tag: 'KVCodecError', found: 'msgpack' } }],
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Effect, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV } from '../src';
+import { runWithNamespace } from './helpers';
+
+const Payload = Schema.Struct({ items: Schema.Array(Schema.String) });
+const blob = { items: Array.from({ length: 200 }, (_, i) => `item-${i % 10}`) };
+const json = JSON.stringify(blob);
+
+describe('Compression', () => {
+  it('should compress large values and decompress them on every read', async () => {
+    const { namespace, result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putJSON('blob', blob, { compression: 'gzip', metadata: { owner: 'ada' } });
+        const text = yield* kv.get('blob');
+        const parsed = yield* kv.getJSON('blob');
+        const buffer = yield* kv.getArrayBuffer('blob');
+        const stream = yield* kv.getStream('blob');
+        const streamed = Option.isSome(stream)
+          ? yield* Effect.promise(() => new Response(stream.value).text())
+          : undefined;
+        const withMetadata = yield* kv.getJSONWithMetadata('blob');
+        const many = yield* kv.getMany(['blob', 'missing']);
+        return { text, parsed, buffer, streamed, withMetadata, many };
+      })
+    );
+
+    const raw = await namespace.getWithMetadata('blob', 'arrayBuffer');
+    expect(raw.metadata).toEqual({ owner: 'ada', _compression: 'gzip' });
+    expect(raw.value!.byteLength).toBeLessThan(json.length);
+
+    expect(result.text).toEqual(Option.some(json));
+    expect(result.parsed).toEqual(Option.some(blob));
+    expect(new TextDecoder().decode(Option.getOrThrow(result.buffer))).toBe(json);
+    expect(result.streamed).toBe(json);
+    expect(Option.map(result.withMetadata, ({ value }) => value)).toEqual(Option.some(blob));
+    expect(result.many.get('blob')).toEqual(Option.some(json));
+    expect(result.many.get('missing')).toEqual(Option.none());
+  });
+
+  it('should store values below the threshold uncompressed', async () => {
+    const { namespace, result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('small', 'tiny', { compression: { format: 'deflate', threshold: 64 } });
+        return yield* kv.get('small');
+      })
+    );
+
+    const raw = await namespace.getWithMetadata('small');
+    expect(raw).toMatchObject({ value: 'tiny', metadata: null });
+    expect(result).toEqual(Option.some('tiny'));
+  });
+
+  it('should compress streams and typed values', async () => {
+    const { namespace, result } = await runWithNamespace(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const blobKV = yield* KV(Payload);
+        yield* kv.put('stream', new Blob([json]).stream(), { compression: 'deflate' });
+        yield* blobKV.put('typed', blob, { compression: { threshold: 0 } });
+        return {
+          stream: yield* kv.get('stream'),
+          typed: yield* blobKV.get('typed'),
+        };
+      })
+    );
+
+    const raw = await namespace.getWithMetadata<Record<string, unknown>>('typed');
+    expect(raw.metadata?._compression).toBe('gzip');
+    expect(result.stream).toEqual(Option.some(json));
+    expect(result.typed).toEqual(Option.some(blob));
+  });
+});
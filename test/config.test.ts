@@ -0,0 +1,146 @@
+import { Effect, Fiber, Layer, Option, Schedule, TestClock, TestContext } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVTest, layerConfig } from '../src';
+import type { KVNamespace } from '@cloudflare/workers-types';
+
+// Namespace whose get fails with the given errors before succeeding
+const createFlakyKV = (failures: Array<Error>) => {
+  let calls = 0;
+  const namespace = {
+    get: async () => {
+      const failure = failures[calls++];
+      if (failure) throw failure;
+      return 'value';
+    },
+    put: async () => {
+      calls++;
+      throw new Error('KV PUT failed: 429 Too Many Requests');
+    },
+  } as unknown as KVNamespace;
+  return { namespace, calls: () => calls };
+};
+
+const retry = Schedule.recurs(3);
+
+describe('KVConfig', () => {
+  it('should attempt calls once when no policy is configured', async () => {
+    const flaky = createFlakyKV([new Error('KV GET failed: 429 Too Many Requests')]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.get('key');
+    });
+
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(KVTest(flaky.namespace))));
+
+    expect(exit._tag).toBe('Failure');
+    expect(flaky.calls()).toBe(1);
+  });
+
+  it('should retry transient failures with the configured schedule', async () => {
+    const flaky = createFlakyKV([
+      new Error('KV GET failed: 429 Too Many Requests'),
+      new Error('KV GET failed: 503 Service Unavailable'),
+    ]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.get('key');
+    });
+
+    const layer = KVTest(flaky.namespace).pipe(Layer.provide(layerConfig({ retry })));
+    const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+    expect(result).toEqual(Option.some('value'));
+    expect(flaky.calls()).toBe(3);
+  });
+
+  it('should not retry failures classified as fatal', async () => {
+    const flaky = createFlakyKV([new Error('KV GET failed: 400 Invalid key')]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.get('key');
+    });
+
+    const layer = KVTest(flaky.namespace).pipe(Layer.provide(layerConfig({ retry })));
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer)));
+
+    expect(exit._tag).toBe('Failure');
+    expect(flaky.calls()).toBe(1);
+  });
+
+  it('should not retry failures that only mention a status-like number', async () => {
+    const flaky = createFlakyKV([
+      new Error('KV GET failed: 414 UTF-8 encoded length of 523 exceeds key length limit of 512.'),
+    ]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.get('key');
+    });
+
+    const layer = KVTest(flaky.namespace).pipe(Layer.provide(layerConfig({ retry })));
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer)));
+
+    expect(exit._tag).toBe('Failure');
+    expect(flaky.calls()).toBe(1);
+  });
+
+  it('should use a custom retry classifier', async () => {
+    const flaky = createFlakyKV([new Error('custom transient')]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      return yield* kv.get('key');
+    });
+
+    const layer = KVTest(flaky.namespace).pipe(
+      Layer.provide(
+        layerConfig({
+          retry,
+          isRetryable: (cause) => cause instanceof Error && cause.message === 'custom transient',
+        })
+      )
+    );
+    const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+    expect(result).toEqual(Option.some('value'));
+  });
+
+  it('should not replay a consumed stream', async () => {
+    const flaky = createFlakyKV([]);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('key', new ReadableStream());
+    });
+
+    const layer = KVTest(flaky.namespace).pipe(Layer.provide(layerConfig({ retry })));
+    const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer)));
+
+    expect(exit._tag).toBe('Failure');
+    expect(flaky.calls()).toBe(1);
+  });
+
+  it('should fail with KVTimeoutError when an attempt exceeds the timeout', async () => {
+    const namespace = {
+      get: () => new Promise(() => {}),
+    } as unknown as KVNamespace;
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const fiber = yield* Effect.fork(Effect.flip(kv.get('slow')));
+      yield* TestClock.adjust('5 seconds');
+      return yield* Fiber.join(fiber);
+    });
+
+    const layer = KVTest(namespace).pipe(Layer.provide(layerConfig({ timeout: '5 seconds' })));
+    const error = await Effect.runPromise(
+      program.pipe(Effect.provide(layer), Effect.provide(TestContext.TestContext))
+    );
+
+    expect(error._tag).toBe('KVTimeoutError');
+    expect(error.message).toBe('KV get for key "slow" timed out after 5s');
+  });
+});
@@ -0,0 +1,127 @@
+import { Effect, Layer, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { KVNamespace } from '@cloudflare/workers-types';
+import {
+  KV,
+  layerEncryption,
+  layerFromNamespace,
+  layerKeyring,
+  makeMemoryNamespace,
+  type EncryptionOptions,
+} from '../src';
+
+const key1 = crypto.getRandomValues(new Uint8Array(32));
+const key2 = crypto.getRandomValues(new Uint8Array(32));
+
+const User = Schema.Struct({ id: Schema.Number, email: Schema.String });
+
+/**
+ * Builds an encrypting KV layer over the given namespace
+ */
+const encrypted = (
+  namespace: KVNamespace,
+  keyring: Parameters<typeof layerKeyring>[0],
+  options?: EncryptionOptions
+) =>
+  layerEncryption(options).pipe(
+    Layer.provide(layerFromNamespace(namespace)),
+    Layer.provide(layerKeyring(keyring))
+  );
+
+describe('Encryption', () => {
+  it('should encrypt values at rest and decrypt them on read', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const layer = encrypted(namespace, { current: 'k1', keys: { k1: key1 } });
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('token', 'secret-token', { metadata: { owner: 'ada' } });
+        const userKV = yield* KV(User);
+        yield* userKV.put('user:1', { id: 1, email: 'ada@example.com' });
+        return {
+          token: yield* kv.getWithMetadata('token'),
+          user: yield* userKV.get('user:1'),
+          many: yield* kv.getMany(['token', 'missing']),
+          reserved: yield* Effect.flip(kv.put('forged', 'value', { metadata: { _keyId: 'k0' } })),
+        };
+      }).pipe(Effect.provide(layer))
+    );
+
+    const raw = await namespace.getWithMetadata<Record<string, unknown>>('token', 'text');
+    expect(raw.value).not.toContain('secret-token');
+    expect(raw.metadata).toMatchObject({ owner: 'ada', _keyId: 'k1' });
+    expect(result.token).toEqual(
+      Option.some({ value: 'secret-token', metadata: { owner: 'ada' }, cacheStatus: null })
+    );
+    expect(result.user).toEqual(Option.some({ id: 1, email: 'ada@example.com' }));
+    expect(result.many.get('token')).toEqual(Option.some('secret-token'));
+    expect(result.many.get('missing')).toEqual(Option.none());
+    expect(result.reserved.message).toContain('Metadata key "_keyId" is reserved');
+    expect(await namespace.get('forged')).toBeNull();
+  });
+
+  it('should read values written with retired keys after a rotation', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const write = (layer: Layer.Layer<'effect-kv/KV'>, value: string) =>
+      Effect.runPromise(
+        Effect.flatMap(KV, (kv) => kv.put(value, value)).pipe(Effect.provide(layer))
+      );
+
+    await write(encrypted(namespace, { current: 'k1', keys: { k1: key1 } }), 'old');
+    const rotated = encrypted(namespace, { current: 'k2', keys: { k1: key1, k2: key2 } });
+    await write(rotated, 'new');
+
+    const values = await Effect.runPromise(
+      Effect.flatMap(KV, (kv) => Effect.all([kv.get('old'), kv.get('new')])).pipe(
+        Effect.provide(rotated)
+      )
+    );
+    const raw = await namespace.getWithMetadata<Record<string, unknown>>('new');
+    expect(values).toEqual([Option.some('old'), Option.some('new')]);
+    expect(raw.metadata?._keyId).toBe('k2');
+  });
+
+  it('should fail with KVDecryptError for tampered, moved or unencrypted values', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const layer = encrypted(namespace, { current: 'k1', keys: { k1: key1 } });
+    await Effect.runPromise(
+      Effect.flatMap(KV, (kv) => kv.put('a', 'value')).pipe(Effect.provide(layer))
+    );
+
+    const stored = await namespace.getWithMetadata<Record<string, unknown>>('a', 'arrayBuffer');
+    const tampered = new Uint8Array(stored.value!);
+    tampered[0] = tampered[0]! ^ 1;
+    await namespace.put('tampered', tampered.buffer, { metadata: stored.metadata! });
+    await namespace.put('moved', stored.value!, { metadata: stored.metadata! });
+    await namespace.put('plain', 'value');
+
+    const errors = await Effect.runPromise(
+      Effect.flatMap(KV, (kv) =>
+        Effect.all(['tampered', 'moved', 'plain'].map((key) => Effect.flip(kv.get(key))))
+      ).pipe(Effect.provide(layer))
+    );
+
+    expect(errors.map((error) => error._tag)).toEqual([
+      'KVDecryptError',
+      'KVDecryptError',
+      'KVDecryptError',
+    ]);
+    expect(errors[2]).toMatchObject({ key: 'plain', reason: 'missing encryption metadata' });
+  });
+
+  it('should return plaintext values when allowed', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    await namespace.put('plain', 'value');
+
+    const value = await Effect.runPromise(
+      Effect.flatMap(KV, (kv) => kv.get('plain')).pipe(
+        Effect.provide(
+          encrypted(namespace, { current: 'k1', keys: { k1: key1 } }, { allowPlaintext: true })
+        )
+      )
+    );
+
+    expect(value).toEqual(Option.some('value'));
+  });
+});
@@ -0,0 +1,21 @@
+import { Effect, TestContext } from 'effect';
+import { KVMemory, layerFromNamespace, makeMemoryNamespace } from '../src';
+
+/**
+ * Runs a program against the in-memory KV layer, with the test clock
+ */
+export const runWithMemory = <A, E>(program: Effect.Effect<A, E, 'effect-kv/KV'>) =>
+  Effect.runPromise(
+    program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+  );
+
+/**
+ * Runs a program against a fresh in-memory namespace, also returning the raw namespace
+ */
+export const runWithNamespace = async <A, E>(program: Effect.Effect<A, E, 'effect-kv/KV'>) => {
+  const namespace = await Effect.runPromise(makeMemoryNamespace);
+  const result = await Effect.runPromise(
+    program.pipe(Effect.provide(layerFromNamespace(namespace)))
+  );
+  return { namespace, result };
+};
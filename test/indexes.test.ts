@@ -0,0 +1,174 @@
+import { Chunk, Effect, Option, Schema, Stream, TestClock, TestContext } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory, makeIndexedKV } from '../src';
+
+const User = Schema.Struct({
+  id: Schema.Number,
+  email: Schema.String,
+  roles: Schema.Array(Schema.String),
+});
+
+const makeUsers = makeIndexedKV(User, {
+  prefix: 'user:',
+  indexes: {
+    email: (user) => user.email.toLowerCase(),
+    role: (user) => user.roles,
+  },
+});
+
+const ada = { id: 1, email: 'Ada@example.com', roles: ['admin', 'dev'] };
+const bob = { id: 2, email: 'bob@example.com', roles: ['dev'] };
+
+describe('Secondary indexes', () => {
+  it('should find records by index value and prefix', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      yield* users.putMany([
+        ['user:1', ada],
+        ['user:2', bob],
+      ]);
+      const byEmail = yield* users.findBy('email', 'ada@example.com');
+      const devs = yield* users.findBy('role', 'dev');
+      const admins = yield* users.findBy('role', 'adm');
+      const listed = yield* Stream.runCollect(users.listBy('email', 'b'));
+      const indexKeys = yield* kv.keys('_index:');
+      return { byEmail, devs, admins, listed, indexKeys };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.toReadonlyArray(result.byEmail)).toEqual([{ key: 'user:1', value: ada }]);
+    expect(Chunk.toReadonlyArray(result.devs).map(({ key }) => key)).toEqual(['user:1', 'user:2']);
+    expect(Chunk.isEmpty(result.admins)).toBe(true);
+    expect(Chunk.toReadonlyArray(result.listed)).toEqual([{ key: 'user:2', value: bob }]);
+    expect(Chunk.toReadonlyArray(result.indexKeys)).toEqual([
+      '_index:email:ada%40example.com:user:1',
+      '_index:email:bob%40example.com:user:2',
+      '_index:role:admin:user:1',
+      '_index:role:dev:user:1',
+      '_index:role:dev:user:2',
+    ]);
+  });
+
+  it('should move and remove index entries on put, modify and delete', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      yield* users.put('user:1', ada);
+      yield* users.put('user:2', bob);
+      yield* users.put('user:1', { ...ada, roles: ['dev'] });
+      yield* users.modify('user:2', (current) => ({
+        ...Option.getOrThrow(current),
+        email: 'robert@example.com',
+      }));
+      yield* users.delete('user:1');
+      const admins = yield* users.findBy('role', 'admin');
+      const oldEmail = yield* users.findBy('email', 'bob@example.com');
+      const newEmail = yield* users.findBy('email', 'robert@example.com');
+      const indexKeys = yield* kv.keys('_index:');
+      return { admins, oldEmail, newEmail, indexKeys };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.isEmpty(result.admins)).toBe(true);
+    expect(Chunk.isEmpty(result.oldEmail)).toBe(true);
+    expect(Chunk.toReadonlyArray(result.newEmail).map(({ key }) => key)).toEqual(['user:2']);
+    expect(Chunk.toReadonlyArray(result.indexKeys)).toEqual([
+      '_index:email:robert%40example.com:user:2',
+      '_index:role:dev:user:2',
+    ]);
+  });
+
+  it('should skip drifted entries on lookup and repair them with rebuild', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      yield* users.put('user:1', ada);
+      // Writes that bypassed the store: a record without entries and a stale pointer
+      yield* kv.putJSON('user:2', bob);
+      yield* kv.put('_index:role:admin:user:2', '');
+      const before = yield* users.findBy('role', 'admin');
+      const rebuilt = yield* users.rebuild;
+      const devs = yield* users.findBy('role', 'dev');
+      const stale = yield* kv.get('_index:role:admin:user:2');
+      return { before, rebuilt, devs, stale };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(Chunk.toReadonlyArray(result.before).map(({ key }) => key)).toEqual(['user:1']);
+    expect(result.rebuilt).toEqual({ scanned: 2, written: 2, removed: 1, skipped: 0 });
+    expect(Chunk.toReadonlyArray(result.devs).map(({ key }) => key)).toEqual(['user:1', 'user:2']);
+    expect(result.stale).toEqual(Option.none());
+  });
+
+  it('should reject index values too long for a KV key before writing anything', async () => {
+    const long = { ...ada, email: `${'a'.repeat(500)}@example.com` };
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      const error = yield* Effect.flip(users.put('user:1', long));
+      const written = yield* kv.keys();
+      yield* kv.putJSON('user:2', long);
+      const rebuilt = yield* users.rebuild;
+      return { error, written, rebuilt };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.error).toMatchObject({
+      _tag: 'KVValueTooLargeError',
+      key: 'user:1',
+      part: 'index key',
+      limit: 512,
+    });
+    expect(Chunk.isEmpty(result.written)).toBe(true);
+    expect(result.rebuilt).toEqual({ scanned: 1, written: 0, removed: 0, skipped: 1 });
+  });
+
+  it('should leave entries of other primary prefixes alone when rebuilding', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      const staff = yield* makeIndexedKV(User, {
+        prefix: 'staff:',
+        indexes: { role: (user) => user.roles },
+      });
+      yield* users.put('user:1', ada);
+      yield* staff.put('staff:1', bob);
+      const rebuilt = yield* users.rebuild;
+      const staffEntries = yield* kv.keys('_index:role:dev:staff:');
+      return { rebuilt, staffEntries };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.rebuilt).toEqual({ scanned: 1, written: 0, removed: 0, skipped: 0 });
+    expect(Chunk.toReadonlyArray(result.staffEntries)).toEqual(['_index:role:dev:staff:1']);
+  });
+
+  it('should carry record expirations over to rebuilt entries', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = yield* makeUsers;
+      yield* kv.putJSON('user:1', ada, { expirationTtl: 90 });
+      yield* TestClock.adjust('1 minute');
+      const rebuilt = yield* users.rebuild;
+      const entries = yield* kv.list({ prefix: '_index:role:' });
+      yield* TestClock.adjust('1 minute');
+      const admins = yield* users.findBy('role', 'admin');
+      return { rebuilt, entries, admins };
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+
+    expect(result.rebuilt.written).toBe(3);
+    // Expirations closer than KV accepts are extended to the 60 second minimum
+    expect(result.entries.keys.map(({ expiration }) => expiration)).toEqual([120, 120]);
+    expect(Chunk.isEmpty(result.admins)).toBe(true);
+  });
+});
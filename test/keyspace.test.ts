@@ -0,0 +1,117 @@
+import { Chunk, Effect, Option, Schema, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory, keySpace, makeKeyedKV } from '../src';
+
+const User = Schema.Struct({ id: Schema.Number, name: Schema.String });
+
+describe('Scoped KV', () => {
+  it('should prefix keys and strip the prefix when listing', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const users = kv.scoped('user:');
+      yield* users.put('1', 'Ada');
+      yield* users.put('2', 'Grace');
+      yield* kv.put('other', 'x');
+      const raw = yield* kv.get('user:1');
+      const scopedKeys = yield* users.keys();
+      const many = yield* users.getMany(['1', '3']);
+      return { raw, scopedKeys: Chunk.toArray(scopedKeys), many };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(result.raw).toEqual(Option.some('Ada'));
+    expect(result.scopedKeys).toEqual(['1', '2']);
+    expect(result.many.get('1')).toEqual(Option.some('Ada'));
+    expect(result.many.get('3')).toEqual(Option.none());
+  });
+
+  it('should nest scopes', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const tenant = kv.scoped('tenant:1:').scoped('user:');
+      yield* tenant.putJSON('a', { ok: true });
+      yield* tenant.delete('missing');
+      return yield* kv.keys();
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(Chunk.toArray(result)).toEqual(['tenant:1:user:a']);
+  });
+});
+
+describe('Key spaces', () => {
+  it('should encode structured keys and decode them when listing', async () => {
+    const OrderKey = Schema.TemplateLiteralParser(Schema.NumberFromString, ':', Schema.String);
+    const Orders = keySpace('order:', OrderKey);
+
+    const program = Effect.gen(function* () {
+      const orders = yield* makeKeyedKV(Orders, User);
+      yield* orders.put([42, ':', 'a1'], { id: 1, name: 'Ada' });
+      yield* orders.put([7, ':', 'b2'], { id: 2, name: 'Grace' });
+      const kv = yield* KV;
+      yield* kv.put('other', 'x');
+      const stored = yield* kv.getJSON('order:42:a1');
+      const order = yield* orders.get([42, ':', 'a1']);
+      const keys = yield* orders.keys();
+      return { stored, order, keys: Chunk.toArray(keys) };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(result.stored).toEqual(Option.some({ id: 1, name: 'Ada' }));
+    expect(result.order).toEqual(Option.some({ id: 1, name: 'Ada' }));
+    expect(result.keys).toEqual([
+      [42, ':', 'a1'],
+      [7, ':', 'b2'],
+    ]);
+  });
+
+  it('should support delete, getOrElse and relative listing prefixes', async () => {
+    const Users = keySpace('user:', Schema.NumberFromString);
+
+    const program = Effect.gen(function* () {
+      const users = yield* makeKeyedKV(Users, User);
+      yield* users.put(10, { id: 10, name: 'Ada' });
+      yield* users.put(20, { id: 20, name: 'Grace' });
+      yield* users.delete(20);
+      const fallback = yield* users.getOrElse(20, { id: 0, name: 'none' });
+      const listed = yield* Stream.runCollect(users.listAll({ prefix: '1' }));
+      return { fallback, listed: Chunk.toArray(listed) };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(result.fallback).toEqual({ id: 0, name: 'none' });
+    expect(result.listed.map((entry) => entry.key)).toEqual([10]);
+  });
+
+  it('should fail with KVDecodeError for keys that do not match the key schema', async () => {
+    const Users = keySpace('user:', Schema.NumberFromString);
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('user:abc', '{}');
+      const users = yield* makeKeyedKV(Users, User);
+      return yield* Effect.flip(users.keys());
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+    expect(error._tag).toBe('KVDecodeError');
+    expect(error).toMatchObject({ key: 'user:abc', source: 'key' });
+  });
+
+  it('should report the full key and prefix mismatches in key errors', async () => {
+    const Users = keySpace('user:', Schema.NumberFromString.pipe(Schema.int()));
+
+    const program = Effect.gen(function* () {
+      const encoded = yield* Effect.flip(Users.encode(1.5));
+      const decoded = yield* Effect.flip(Users.decode('order:1'));
+      return { encoded, decoded };
+    });
+
+    const result = await Effect.runPromise(program);
+    expect(result.encoded).toMatchObject({ _tag: 'KVEncodeError', key: 'user:1.5' });
+    expect(result.decoded).toMatchObject({ _tag: 'KVDecodeError', key: 'order:1', source: 'key' });
+    expect(result.decoded.cause.message).toBe(
+      'Expected a key starting with "user:", got "order:1"'
+    );
+  });
+});
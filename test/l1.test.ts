@@ -0,0 +1,167 @@
+import { Effect, Layer, Option, Schedule, TestClock } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { acquireLock, KV, KVMemory, layerL1Cache, makeL1Cache, type KVService } from '../src';
+import { runWithMemory } from './helpers';
+
+describe('L1 cache', () => {
+  it('should serve repeated reads from memory until the TTL passes', async () => {
+    const cache = makeL1Cache({ ttl: '10 seconds' });
+
+    const result = await runWithMemory(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const cached = cache.decorate(kv);
+        yield* kv.put('key', 'v1');
+        const first = yield* cached.get('key');
+        yield* kv.put('key', 'v2');
+        const second = yield* cached.getWithMetadata('key');
+        yield* TestClock.adjust('11 seconds');
+        const third = yield* cached.get('key');
+        return { first, second, third, stats: yield* cache.stats };
+      })
+    );
+
+    expect(result.first).toEqual(Option.some('v1'));
+    expect(result.second).toEqual(Option.some({ value: 'v1', metadata: null, cacheStatus: null }));
+    expect(result.third).toEqual(Option.some('v2'));
+    expect(result.stats).toMatchObject({ hits: 1, misses: 2, entries: 1 });
+  });
+
+  it('should cache missing keys and invalidate on its own writes and deletes', async () => {
+    const cache = makeL1Cache();
+
+    const result = await runWithMemory(
+      Effect.gen(function* () {
+        const cached = cache.decorate(yield* KV);
+        const missing = yield* cached.getJSON('user');
+        yield* cached.putJSON('user', { id: 1 }, { metadata: { v: 1 } });
+        const written = yield* cached.getJSONWithMetadata('user');
+        yield* cached.delete('user');
+        const deleted = yield* cached.getJSON('user');
+        return { missing, written, deleted, stats: yield* cache.stats };
+      })
+    );
+
+    expect(result.missing).toEqual(Option.none());
+    expect(result.written).toEqual(
+      Option.some({ value: { id: 1 }, metadata: { v: 1 }, cacheStatus: null })
+    );
+    expect(result.deleted).toEqual(Option.none());
+    expect(result.stats).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('should keep the order of getMany keys and cache the values it fetches', async () => {
+    const cache = makeL1Cache();
+
+    const result = await runWithMemory(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const cached = cache.decorate(kv);
+        yield* kv.put('a', '1', { metadata: { v: 1 } });
+        yield* kv.put('b', '2');
+        yield* cached.get('b');
+        const many = yield* cached.getMany(['a', 'b', 'c']);
+        yield* kv.put('a', 'changed');
+        yield* kv.put('c', 'created');
+        const again = yield* cached.getMany(['c', 'a']);
+        const withMetadata = yield* cached.getWithMetadata('a');
+        return { many, again, withMetadata };
+      })
+    );
+
+    expect(Array.from(result.many)).toEqual([
+      ['a', Option.some('1')],
+      ['b', Option.some('2')],
+      ['c', Option.none()],
+    ]);
+    expect(Array.from(result.again)).toEqual([
+      ['c', Option.none()],
+      ['a', Option.some('1')],
+    ]);
+    // Values cached by getMany were read without metadata, so this read goes to KV
+    expect(result.withMetadata).toEqual(
+      Option.some({ value: 'changed', metadata: null, cacheStatus: null })
+    );
+  });
+
+  it('should evict the least recently used entries beyond its limits', async () => {
+    const cache = makeL1Cache({ maxEntries: 2 });
+
+    const result = await runWithMemory(
+      Effect.gen(function* () {
+        const cached = cache.decorate(yield* KV);
+        yield* cached.put('a', '1');
+        yield* cached.put('b', '2');
+        yield* cached.get('a');
+        yield* cached.put('c', '3');
+        yield* cached.get('a');
+        yield* cached.get('b');
+        return yield* cache.stats;
+      })
+    );
+
+    expect(result).toMatchObject({ hits: 2, misses: 1, evictions: 2, entries: 2 });
+  });
+
+  it('should not cache values larger than maxBytes', async () => {
+    const cache = makeL1Cache({ maxBytes: 4 });
+
+    const stats = await runWithMemory(
+      Effect.gen(function* () {
+        const cached = cache.decorate(yield* KV);
+        yield* cached.put('big', 'too large');
+        yield* cached.get('big');
+        return yield* cache.stats;
+      })
+    );
+
+    expect(stats).toMatchObject({ hits: 0, misses: 1, entries: 0, bytes: 0 });
+  });
+
+  it('should share entries with scoped services and compose as a layer', async () => {
+    const cache = makeL1Cache();
+    const layer = layerL1Cache(cache).pipe(Layer.provide(KVMemory));
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.scoped('user:').put('1', 'Ada');
+        const value = yield* kv.get('user:1');
+        const many = yield* kv.getMany(['user:1', 'user:2']);
+        return { value, many, stats: yield* cache.stats };
+      }).pipe(Effect.provide(layer))
+    );
+
+    expect(result.value).toEqual(Option.some('Ada'));
+    expect(result.many.get('user:2')).toEqual(Option.none());
+    expect(result.stats).toMatchObject({ hits: 2, misses: 1 });
+  });
+
+  it('should read back updates and locks from KV instead of memory', async () => {
+    const cache = makeL1Cache();
+
+    const result = await runWithMemory(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        // Another writer overwrites every value right after it is written
+        const racing: KVService = {
+          ...kv,
+          put: (key, value, options) =>
+            Effect.zipRight(kv.put(key, value, options), kv.put(key, '"theirs"')),
+        };
+        const cached = cache.decorate(racing);
+        const update = yield* Effect.flip(
+          cached.update('counter', () => 'mine', { retry: Schedule.recurs(1) })
+        );
+
+        const lock = yield* Effect.flip(
+          Effect.scoped(acquireLock(cache.decorate(racing), 'job', { ttl: '1 minute' }))
+        );
+        return { update, lock };
+      })
+    );
+
+    expect(result.update).toMatchObject({ _tag: 'KVConflictError', attempts: 2 });
+    expect(result.lock).toMatchObject({ _tag: 'KVLockError', reason: 'lost' });
+  });
+});
@@ -0,0 +1,76 @@
+import { Effect, Exit, Option, Scope, TestClock } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVLock } from '../src';
+import { runWithMemory } from './helpers';
+
+describe('KVLock', () => {
+  it('should hold a lock until the scope closes and release it', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const scope = yield* Scope.make();
+      const lease = yield* Scope.extend(KVLock.acquire('job', { ttl: '1 minute' }), scope);
+      const contender = yield* Effect.flip(
+        Effect.scoped(KVLock.acquire('job', { ttl: '1 minute' }))
+      );
+      const stored = yield* kv.getJSON<{ token: string }>('lock:job');
+      yield* Scope.close(scope, Exit.void);
+      const released = yield* kv.get('lock:job');
+      const reacquired = yield* Effect.scoped(KVLock.acquire('job', { ttl: '1 minute' }));
+      return { lease, contender, stored, released, reacquired };
+    });
+
+    const result = await runWithMemory(program);
+
+    expect(result.contender).toMatchObject({ _tag: 'KVLockError', lock: 'job', reason: 'held' });
+    expect(Option.map(result.stored, ({ token }) => token)).toEqual(
+      Option.some(result.lease.token)
+    );
+    expect(result.released).toEqual(Option.none());
+    expect(result.reacquired.token).not.toBe(result.lease.token);
+  });
+
+  it('should renew the lease while the scope is open', async () => {
+    const program = Effect.scoped(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const lease = yield* KVLock.acquire('job', { ttl: '1 minute' });
+        yield* TestClock.adjust('5 minutes');
+        const held = yield* lease.held;
+        const stored = yield* kv.getJSON<{ token: string }>('lock:job');
+        return { lease, held, stored };
+      })
+    );
+
+    const result = await runWithMemory(program);
+
+    expect(result.held).toBe(true);
+    expect(Option.map(result.stored, ({ token }) => token)).toEqual(
+      Option.some(result.lease.token)
+    );
+  });
+
+  it('should stop renewing and keep the new owner when the lease is lost', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const scope = yield* Scope.make();
+      const lease = yield* Scope.extend(KVLock.acquire('job', { ttl: '1 minute' }), scope);
+      yield* TestClock.adjust('61 seconds');
+      // Another owner takes over, e.g. after this one stalled past its ttl
+      yield* kv.putJSON(
+        'lock:job',
+        { token: 'other', expiresAt: 3_600_000 },
+        { expirationTtl: 3600 }
+      );
+      yield* TestClock.adjust('30 seconds');
+      const held = yield* lease.held;
+      yield* Scope.close(scope, Exit.void);
+      const stored = yield* kv.getJSON<{ token: string }>('lock:job');
+      return { held, stored };
+    });
+
+    const result = await runWithMemory(program);
+
+    expect(result.held).toBe(false);
+    expect(Option.map(result.stored, ({ token }) => token)).toEqual(Option.some('other'));
+  });
+});
@@ -0,0 +1,183 @@
+import { Effect, Option, TestClock } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, makeMemoryNamespace } from '../src';
+import { runWithMemory } from './helpers';
+
+describe('In-memory namespace', () => {
+  describe('list', () => {
+    it('should list keys in lexicographic order', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('b', '2');
+        yield* kv.put('c', '3');
+        yield* kv.put('a', '1');
+        yield* kv.put('ab', '4');
+        return yield* kv.list();
+      });
+
+      const result = await runWithMemory(program);
+
+      expect(result.keys.map((k) => k.name)).toEqual(['a', 'ab', 'b', 'c']);
+      expect(result.list_complete).toBe(true);
+      expect(result.cursor).toBeUndefined();
+    });
+
+    it('should page through keys with a cursor', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        for (const key of ['page-1', 'page-2', 'page-3', 'other']) {
+          yield* kv.put(key, 'value');
+        }
+        const first = yield* kv.list({ prefix: 'page-', limit: 2 });
+        const second = yield* kv.list({ prefix: 'page-', limit: 2, cursor: first.cursor });
+        return { first, second };
+      });
+
+      const { first, second } = await runWithMemory(program);
+
+      expect(first.keys.map((k) => k.name)).toEqual(['page-1', 'page-2']);
+      expect(first.list_complete).toBe(false);
+      expect(first.cursor).toBeDefined();
+      expect(second.keys.map((k) => k.name)).toEqual(['page-3']);
+      expect(second.list_complete).toBe(true);
+    });
+
+    it('should return at most 1000 keys per page and reject larger limits', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* Effect.forEach(
+          Array.from({ length: 1001 }, (_, i) => `key-${String(i).padStart(4, '0')}`),
+          (key) => kv.put(key, 'value'),
+          { discard: true }
+        );
+        const page = yield* kv.list();
+        const tooLarge = yield* Effect.either(kv.list({ limit: 1001 }));
+        return { page, tooLarge };
+      });
+
+      const { page, tooLarge } = await runWithMemory(program);
+
+      expect(page.keys).toHaveLength(1000);
+      expect(page.list_complete).toBe(false);
+      expect(tooLarge._tag).toBe('Left');
+    });
+
+    it('should return stored metadata and expiration', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('with-meta', 'value', { metadata: { owner: 'alice' }, expirationTtl: 120 });
+        yield* kv.put('plain', 'value');
+        return yield* kv.list();
+      });
+
+      const result = await runWithMemory(program);
+
+      expect(result.keys).toEqual([
+        { name: 'plain' },
+        { name: 'with-meta', metadata: { owner: 'alice' }, expiration: 120 },
+      ]);
+    });
+  });
+
+  describe('expiration', () => {
+    it('should expire keys when the clock passes their TTL', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('session', 'token', { expirationTtl: 60 });
+        yield* TestClock.adjust('59 seconds');
+        const before = yield* kv.get('session');
+        yield* TestClock.adjust('1 second');
+        const after = yield* kv.get('session');
+        const listed = yield* kv.list();
+        return { before, after, listed };
+      });
+
+      const { before, after, listed } = await runWithMemory(program);
+
+      expect(before).toEqual(Option.some('token'));
+      expect(after).toEqual(Option.none());
+      expect(listed.keys).toEqual([]);
+    });
+
+    it('should honour absolute expiration and reject TTLs below 60 seconds', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* TestClock.adjust('1000 seconds');
+        yield* kv.put('absolute', 'value', { expiration: 1100 });
+        yield* TestClock.adjust('100 seconds');
+        const expired = yield* kv.get('absolute');
+        const tooShort = yield* Effect.either(kv.put('short', 'value', { expirationTtl: 10 }));
+        return { expired, tooShort };
+      });
+
+      const { expired, tooShort } = await runWithMemory(program);
+
+      expect(expired).toEqual(Option.none());
+      expect(tooShort._tag).toBe('Left');
+    });
+  });
+
+  describe('value types', () => {
+    it('should round-trip strings, JSON, ArrayBuffers and streams', async () => {
+      const program = Effect.gen(function* () {
+        const kv = yield* KV;
+        const bytes = new Uint8Array([0, 1, 2, 255]);
+        yield* kv.put('binary', bytes.buffer);
+        yield* kv.put(
+          'streamed',
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('hello '));
+              controller.enqueue(new TextEncoder().encode('world'));
+              controller.close();
+            },
+          })
+        );
+        yield* kv.putJSON('json', { ok: true });
+
+        const binary = yield* kv.getArrayBuffer('binary');
+        const streamed = yield* kv.get('streamed');
+        const json = yield* kv.getJSON('json');
+        const stream = yield* kv.getStream('streamed');
+        const streamText = yield* Effect.promise(() =>
+          new Response(Option.getOrThrow(stream)).text()
+        );
+        return { binary, streamed, json, streamText };
+      });
+
+      const { binary, streamed, json, streamText } = await runWithMemory(program);
+
+      expect(Array.from(new Uint8Array(Option.getOrThrow(binary)))).toEqual([0, 1, 2, 255]);
+      expect(streamed).toEqual(Option.some('hello world'));
+      expect(json).toEqual(Option.some({ ok: true }));
+      expect(streamText).toBe('hello world');
+    });
+  });
+
+  it('should copy metadata on write and on read', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const metadata = { tags: ['a'] };
+    await namespace.put('key', 'value', { metadata });
+    metadata.tags.push('written');
+    const read = await namespace.getWithMetadata<{ tags: Array<string> }>('key');
+    read.metadata!.tags.push('read');
+    (await namespace.list<{ tags: Array<string> }>()).keys[0]!.metadata!.tags.push('listed');
+
+    const stored = await namespace.getWithMetadata('key');
+
+    expect(stored.metadata).toEqual({ tags: ['a'] });
+  });
+
+  it('should create isolated namespaces', async () => {
+    const program = Effect.gen(function* () {
+      const first = yield* makeMemoryNamespace;
+      const second = yield* makeMemoryNamespace;
+      yield* Effect.promise(() => first.put('key', 'value'));
+      return yield* Effect.promise(() => second.get('key'));
+    });
+
+    const result = await Effect.runPromise(program);
+
+    expect(result).toBeNull();
+  });
+});
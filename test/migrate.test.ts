@@ -0,0 +1,182 @@
+import { Effect, Layer, Option } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  KV,
+  KVMemory,
+  layerFromNamespace,
+  layerMemory,
+  makeMemoryNamespace,
+  migrate,
+  type MigrationEntry,
+} from '../src';
+
+const Archive = KV.Tag('Archive');
+
+const future = Math.floor(Date.now() / 1000) + 3600;
+
+const renameUsers = (entry: MigrationEntry) =>
+  Effect.succeed(
+    entry.key.startsWith('user:')
+      ? Option.some({ ...entry, key: entry.key.replace(/^user:/, 'users/') })
+      : Option.none()
+  );
+
+const seed = Effect.gen(function* () {
+  const kv = yield* KV;
+  yield* kv.put('user:1', 'ada', { metadata: { role: 'admin' }, expiration: future });
+  yield* kv.put('user:2', 'bob');
+  yield* kv.put('config', 'dark');
+});
+
+describe('migrate', () => {
+  it('should rename keys within a namespace, keeping metadata and expiration', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* seed;
+      const result = yield* migrate({ transform: renameUsers, deleteSource: true });
+      const moved = yield* kv.getWithMetadata('users/1');
+      const listed = yield* kv.list();
+      return { result, moved, keys: listed.keys };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.result).toEqual({ scanned: 3, migrated: 2, skipped: 1, deleted: 2 });
+    expect(Option.getOrThrow(result.moved)).toMatchObject({
+      value: 'ada',
+      metadata: { role: 'admin' },
+    });
+    expect(result.keys.map(({ name }) => name)).toEqual(['config', 'users/1', 'users/2']);
+    expect(result.keys[1].expiration).toBe(future);
+  });
+
+  it('should report counts without writing in a dry run', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* seed;
+      const result = yield* migrate({ transform: renameUsers, deleteSource: true, dryRun: true });
+      const keys = yield* kv.keys();
+      return { result, keys };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.result).toEqual({ scanned: 3, migrated: 2, skipped: 1, deleted: 2 });
+    expect(Array.from(result.keys)).toEqual(['config', 'user:1', 'user:2']);
+  });
+
+  it('should copy compressed and chunked values to another namespace', async () => {
+    const bytes = Uint8Array.from({ length: 2500 }, (_, i) => i % 251);
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const archive = yield* Archive;
+      yield* kv.put('report', 'x'.repeat(5000), { compression: 'gzip' });
+      yield* kv.putChunked('blob', bytes.slice().buffer, { chunkSize: 1000 });
+      const result = yield* migrate({}, KV, Archive);
+      const report = yield* archive.get('report');
+      const blob = yield* archive.getArrayBuffer('blob');
+      const listed = yield* archive.list();
+      const sourceKeys = yield* kv.keys();
+      return { result, report, blob, listed, sourceKeys };
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(Layer.merge(KVMemory, layerMemory(Archive))))
+    );
+
+    expect(result.result).toEqual({ scanned: 2, migrated: 2, skipped: 0, deleted: 0 });
+    expect(result.report).toEqual(Option.some('x'.repeat(5000)));
+    expect(new Uint8Array(Option.getOrThrow(result.blob))).toEqual(bytes);
+    const metadata = new Map(result.listed.keys.map(({ name, metadata }) => [name, metadata]));
+    expect(metadata.get('report')).toEqual({ _compression: 'gzip' });
+    expect(metadata.get('blob')).toMatchObject({ _chunks: { count: 1 } });
+    expect(result.sourceKeys.length).toBe(5);
+  });
+
+  it('should resume an interrupted migration from its checkpoint', async () => {
+    const seen: Array<string> = [];
+    let failOnce = true;
+    const transform = (entry: MigrationEntry) =>
+      Effect.suspend(() => {
+        seen.push(entry.key);
+        if (entry.key === 'k3' && failOnce) {
+          failOnce = false;
+          return Effect.fail('transform crashed' as const);
+        }
+        return Effect.succeed(Option.some({ ...entry, key: `new/${entry.key}` }));
+      });
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putMany(['k1', 'k2', 'k3', 'k4'].map((key) => [key, key] as const));
+      const options = { prefix: 'k', transform, checkpoint: 'migration:k', checkpointEvery: 2 };
+      const failed = yield* Effect.flip(migrate({ ...options, concurrency: 1 }));
+      const saved = yield* kv.getJSON('migration:k');
+      const result = yield* migrate(options);
+      const checkpoint = yield* kv.get('migration:k');
+      const keys = yield* kv.keys('new/');
+      return { failed, saved, result, checkpoint, keys };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.failed).toBe('transform crashed');
+    expect(result.saved).toEqual(
+      Option.some({ scanned: 2, migrated: 2, skipped: 0, deleted: 0, lastKey: 'k2' })
+    );
+    expect(result.result).toEqual({ scanned: 4, migrated: 4, skipped: 0, deleted: 0 });
+    expect(seen).toEqual(['k1', 'k2', 'k3', 'k3', 'k4']);
+    expect(result.checkpoint).toEqual(Option.none());
+    expect(Array.from(result.keys)).toEqual(['new/k1', 'new/k2', 'new/k3', 'new/k4']);
+  });
+
+  it('should treat tags over the same binding as one namespace', async () => {
+    const namespace = await Effect.runPromise(makeMemoryNamespace);
+    const layer = Layer.merge(
+      layerFromNamespace(namespace),
+      layerFromNamespace(namespace, Archive)
+    );
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* seed;
+      // Rewritten in place, so there is no source key to delete
+      const transform = (entry: MigrationEntry) =>
+        Effect.succeed(Option.some({ ...entry, value: String(entry.value).toUpperCase() }));
+      const result = yield* migrate({ transform, deleteSource: true }, KV, Archive);
+      return { result, values: yield* kv.getMany(['config', 'user:1', 'user:2']) };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+    expect(result.result).toEqual({ scanned: 3, migrated: 3, skipped: 0, deleted: 0 });
+    expect(Array.from(result.values.values())).toEqual(
+      ['DARK', 'ADA', 'BOB'].map((value) => Option.some(value))
+    );
+  });
+
+  it('should resume after the saved key in the order KV lists keys', async () => {
+    // KV orders keys by UTF-8 bytes, where U+FF61 sorts before an emoji, unlike in UTF-16
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putMany([
+        ['k\uff61', 'done'],
+        ['k\u{1f600}', 'pending'],
+      ]);
+      yield* kv.putJSON('migration:k', {
+        scanned: 1,
+        migrated: 1,
+        skipped: 0,
+        deleted: 0,
+        lastKey: 'k\uff61',
+      });
+      const transform = (entry: MigrationEntry) =>
+        Effect.succeed(Option.some({ ...entry, key: `new/${entry.key}` }));
+      const result = yield* migrate({ prefix: 'k', transform, checkpoint: 'migration:k' });
+      return { result, keys: yield* kv.keys('new/') };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.result).toEqual({ scanned: 2, migrated: 2, skipped: 0, deleted: 0 });
+    expect(Array.from(result.keys)).toEqual(['new/k\u{1f600}']);
+  });
+});
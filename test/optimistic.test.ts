@@ -0,0 +1,145 @@
+import { Effect, Option, Schedule, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { KV, KVMemory, layerFromNamespace, makeMemoryNamespace } from '../src';
+
+const Counter = Schema.Struct({ count: Schema.Number });
+
+/**
+ * Wraps an in-memory namespace so another writer overwrites a key right after some puts
+ */
+const contended = async (interferes: (put: number) => boolean) => {
+  const namespace = await Effect.runPromise(makeMemoryNamespace);
+  let puts = 0;
+  return {
+    get: namespace.get.bind(namespace),
+    getWithMetadata: namespace.getWithMetadata.bind(namespace),
+    delete: namespace.delete.bind(namespace),
+    list: namespace.list.bind(namespace),
+    put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+      await namespace.put(key, value, options);
+      if (interferes(++puts)) {
+        await namespace.put(key, JSON.stringify({ count: 100 }), {
+          metadata: { _etag: 'other-writer' },
+        });
+      }
+    },
+  } as unknown as KVNamespace;
+};
+
+/**
+ * Wraps an in-memory namespace so another writer overwrites a key right after some reads
+ */
+const overtaken = async (interferes: (read: number) => boolean) => {
+  const namespace = await Effect.runPromise(makeMemoryNamespace);
+  let reads = 0;
+  return {
+    get: namespace.get.bind(namespace),
+    put: namespace.put.bind(namespace),
+    delete: namespace.delete.bind(namespace),
+    list: namespace.list.bind(namespace),
+    getWithMetadata: async (key: string, options?: unknown) => {
+      const result = await namespace.getWithMetadata(key, options as never);
+      if (interferes(++reads)) {
+        await namespace.put(key, JSON.stringify({ count: 100 }), {
+          metadata: { _etag: 'other-writer' },
+        });
+      }
+      return result;
+    },
+  } as unknown as KVNamespace;
+};
+
+describe('Optimistic updates', () => {
+  it('should update a value from its current value and record an update token', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const increment = (current: Option.Option<string>) =>
+        String(Number(Option.getOrElse(current, () => '0')) + 1);
+      yield* kv.update('hits', increment);
+      const second = yield* kv.update('hits', increment, { metadata: { unit: 'requests' } });
+      const stored = yield* kv.getWithMetadata<Record<string, unknown>>('hits');
+      return { second, stored };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.second).toBe('2');
+    const { value, metadata } = Option.getOrThrow(result.stored);
+    expect(value).toBe('2');
+    expect(metadata).toMatchObject({ unit: 'requests', _etag: expect.any(String) });
+  });
+
+  it('should retry from a fresh read when a concurrent write is detected', async () => {
+    const seen: Array<Option.Option<number>> = [];
+    const program = Effect.gen(function* () {
+      const counters = yield* KV(Counter);
+      yield* counters.put('counter', { count: 1 });
+      return yield* counters.modify('counter', (current) => {
+        seen.push(Option.map(current, ({ count }) => count));
+        return { count: Option.match(current, { onNone: () => 0, onSome: (c) => c.count }) + 1 };
+      });
+    });
+
+    // Put 1 is the setup write; another writer overwrites the first modify attempt
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(layerFromNamespace(await contended((put) => put === 2))))
+    );
+
+    expect(result).toEqual({ count: 101 });
+    expect(seen).toEqual([Option.some(1), Option.some(100)]);
+  });
+
+  it('should not write over a value changed after it was read', async () => {
+    const seen: Array<Option.Option<number>> = [];
+    const program = Effect.gen(function* () {
+      const counters = yield* KV(Counter);
+      yield* counters.put('counter', { count: 1 });
+      return yield* counters.modify('counter', (current) => {
+        seen.push(Option.map(current, ({ count }) => count));
+        return { count: Option.match(current, { onNone: () => 0, onSome: (c) => c.count }) + 1 };
+      });
+    });
+
+    // Another writer updates the key between the first read and the write
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(layerFromNamespace(await overtaken((read) => read === 1))))
+    );
+
+    expect(result).toEqual({ count: 101 });
+    expect(seen).toEqual([Option.some(1), Option.some(100)]);
+  });
+
+  it('should fail with KVConflictError once retries are exhausted', async () => {
+    const program = Effect.gen(function* () {
+      const counters = yield* KV(Counter);
+      return yield* Effect.flip(
+        counters.modify('counter', () => ({ count: 1 }), { retry: Schedule.recurs(2) })
+      );
+    });
+
+    const error = await Effect.runPromise(
+      program.pipe(Effect.provide(layerFromNamespace(await contended(() => true))))
+    );
+
+    expect(error).toMatchObject({ _tag: 'KVConflictError', key: 'counter', attempts: 3 });
+  });
+
+  it('should not retry values that fail validation', async () => {
+    let calls = 0;
+    const program = Effect.gen(function* () {
+      const counters = yield* KV(Counter);
+      return yield* Effect.flip(
+        counters.modify('counter', () => {
+          calls++;
+          return { count: 'many' } as unknown as { count: number };
+        })
+      );
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(error._tag).toBe('KVEncodeError');
+    expect(calls).toBe(1);
+  });
+});
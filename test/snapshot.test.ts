@@ -0,0 +1,170 @@
+import { Effect, Option, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { exportNamespace, importNamespace, KV, KVMemory, type ImportProgress } from '../src';
+
+const bytes = Uint8Array.from({ length: 3000 }, (_, i) => (i * 7) % 256);
+// Not valid UTF-8, so exported as base64
+const binary = Uint8Array.of(255, 0, 128, 7);
+const future = Math.floor(Date.now() / 1000) + 3600;
+
+const seed = Effect.gen(function* () {
+  const kv = yield* KV;
+  yield* kv.put('text', 'hello', { metadata: { owner: 'ada' }, expiration: future });
+  yield* kv.put('binary', binary.slice().buffer);
+  yield* kv.putJSON('zipped', { items: [1, 2, 3] }, { compression: 'gzip' });
+  yield* kv.putChunked('large', bytes.slice().buffer, { chunkSize: 1000 });
+});
+
+const line = (key: string, value: string, extra: object = {}) =>
+  `${JSON.stringify({ key, value, encoding: 'text', ...extra })}\n`;
+
+describe('Snapshots', () => {
+  it('should export decoded values and import them into another namespace', async () => {
+    const snapshot = await Effect.runPromise(
+      Effect.zipRight(seed, Stream.runCollect(exportNamespace())).pipe(Effect.provide(KVMemory))
+    );
+    const lines = Array.from(snapshot);
+
+    const imported = await Effect.runPromise(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        const totals = yield* importNamespace(Stream.fromIterable(lines));
+        return {
+          totals,
+          text: yield* kv.getWithMetadata('text'),
+          binary: yield* kv.getArrayBuffer('binary'),
+          zipped: yield* kv.getJSON('zipped'),
+          large: yield* kv.getArrayBuffer('large'),
+          keys: yield* kv.list(),
+        };
+      }).pipe(Effect.provide(KVMemory))
+    );
+
+    expect(lines.map((text) => JSON.parse(text).key)).toEqual([
+      'binary',
+      'large',
+      'text',
+      'zipped',
+    ]);
+    expect(JSON.parse(lines[0]).encoding).toBe('base64');
+    expect(JSON.parse(lines[2])).toEqual({
+      key: 'text',
+      value: 'hello',
+      encoding: 'text',
+      metadata: { owner: 'ada' },
+      expiration: future,
+    });
+    expect(imported.totals).toEqual({ lines: 4, written: 4, skipped: 0 });
+    expect(Option.getOrThrow(imported.text)).toMatchObject({
+      value: 'hello',
+      metadata: { owner: 'ada' },
+    });
+    expect(imported.binary.pipe(Option.map((buffer) => new Uint8Array(buffer)))).toEqual(
+      Option.some(binary)
+    );
+    expect(imported.zipped).toEqual(Option.some({ items: [1, 2, 3] }));
+    expect(imported.large.pipe(Option.map((buffer) => new Uint8Array(buffer)))).toEqual(
+      Option.some(bytes)
+    );
+    expect(imported.keys.keys.find(({ name }) => name === 'text')?.expiration).toBe(future);
+  });
+
+  it('should round-trip values over the KV size limit as chunked keys', async () => {
+    const huge = 'x'.repeat(25 * 1024 * 1024 + 1);
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.putChunked('huge', huge, { metadata: { owner: 'ada' } });
+        const lines = yield* Stream.runCollect(exportNamespace());
+        yield* kv.delete('huge');
+        const totals = yield* importNamespace(Stream.fromIterable(lines));
+        const imported = yield* kv.getWithMetadata('huge');
+        return { totals, imported, keys: yield* kv.keys() };
+      }).pipe(Effect.provide(KVMemory))
+    );
+
+    expect(result.totals).toEqual({ lines: 1, written: 1, skipped: 0 });
+    const imported = Option.getOrThrow(result.imported);
+    expect(imported.value.length).toBe(huge.length);
+    expect(imported.metadata).toEqual({ owner: 'ada' });
+    expect(result.keys.length).toBe(3);
+  });
+
+  it('should skip existing keys and expired entries and report progress', async () => {
+    const reports: Array<ImportProgress> = [];
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('a', 'kept');
+      const totals = yield* importNamespace(
+        // Split mid-line, as chunks of a file body would be
+        Stream.make(
+          line('a', 'replaced') + line('b', 'new').slice(0, 10),
+          line('b', 'new').slice(10) + '\n',
+          line('c', 'expired', { expiration: 1 })
+        ),
+        {
+          mode: 'skipExisting',
+          checkpointEvery: 2,
+          onProgress: (progress) => Effect.sync(() => reports.push(progress)),
+        }
+      );
+      return { totals, a: yield* kv.get('a'), b: yield* kv.get('b'), c: yield* kv.get('c') };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.totals).toEqual({ lines: 4, written: 1, skipped: 2 });
+    expect(reports).toEqual([
+      { lines: 2, written: 1, skipped: 1 },
+      { lines: 4, written: 1, skipped: 2 },
+      { lines: 4, written: 1, skipped: 2 },
+    ]);
+    expect(result.a).toEqual(Option.some('kept'));
+    expect(result.b).toEqual(Option.some('new'));
+    expect(result.c).toEqual(Option.none());
+  });
+
+  it('should resume an interrupted import from its checkpoint', async () => {
+    const lines = ['a', 'b', 'c', 'd', 'e'].map((key) => line(key, key.toUpperCase()));
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const failed = yield* Effect.flip(
+        importNamespace(
+          Stream.concat(Stream.fromIterable(lines.slice(0, 3)), Stream.fail('connection lost')),
+          { checkpoint: 'import:test', checkpointEvery: 2, concurrency: 1 }
+        )
+      );
+      const saved = yield* kv.getJSON('import:test');
+      // Changed after the checkpoint, so a resumed import must not write it again
+      yield* kv.put('a', 'changed');
+      const totals = yield* importNamespace(Stream.fromIterable(lines), {
+        checkpoint: 'import:test',
+        checkpointEvery: 2,
+      });
+      const values = yield* kv.getMany(['a', 'b', 'c', 'd', 'e']);
+      const checkpoint = yield* kv.get('import:test');
+      return { failed, saved, totals, values, checkpoint };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.failed).toBe('connection lost');
+    expect(result.saved).toEqual(Option.some({ lines: 2, written: 2, skipped: 0 }));
+    expect(result.totals).toEqual({ lines: 5, written: 5, skipped: 0 });
+    expect(Array.from(result.values.values())).toEqual(
+      ['changed', 'B', 'C', 'D', 'E'].map(Option.some)
+    );
+    expect(result.checkpoint).toEqual(Option.none());
+  });
+
+  it('should fail with the line number of a malformed entry', async () => {
+    const error = await Effect.runPromise(
+      Effect.flip(importNamespace(Stream.make(line('a', 'A'), '{"key": 1}\n'))).pipe(
+        Effect.provide(KVMemory)
+      )
+    );
+
+    expect(error).toMatchObject({ _tag: 'KVSnapshotError', line: 2 });
+  });
+});
@@ -0,0 +1,98 @@
+import { Chunk, Effect, Fiber, Option, pipe, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { KV, KVMemory, KVTest } from '../src';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('Effect streams', () => {
+  it('should put from a Stream and read back into a Stream', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putStream(
+        'export',
+        Stream.make('a,b\n', '1,2\n', '3,4\n').pipe(Stream.map((line) => encoder.encode(line)))
+      );
+      const stream = yield* kv.getByteStream('export');
+      const missing = yield* kv.getByteStream('missing');
+      const text = yield* pipe(Option.getOrThrow(stream), Stream.decodeText(), Stream.mkString);
+      return { text, missing };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.text).toBe('a,b\n1,2\n3,4\n');
+    expect(result.missing).toEqual(Option.none());
+  });
+
+  it("should fail a put with the source stream's error", async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const error = yield* Effect.flip(
+        kv.putStream(
+          'broken',
+          Stream.concat(Stream.make(encoder.encode('partial')), Stream.fail('source failed'))
+        )
+      );
+      const stored = yield* kv.get('broken');
+      return { error, stored };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.error).toBe('source failed');
+    expect(result.stored).toEqual(Option.none());
+  });
+
+  it('should interrupt the source when the put is interrupted', async () => {
+    let released = false;
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const fiber = yield* Effect.fork(
+        kv.putStream(
+          'endless',
+          Stream.concat(Stream.make(encoder.encode('start')), Stream.never).pipe(
+            Stream.ensuring(Effect.sync(() => (released = true)))
+          )
+        )
+      );
+      yield* Effect.sleep('20 millis');
+      yield* Fiber.interrupt(fiber);
+      yield* Effect.sleep('20 millis');
+      return yield* kv.get('endless');
+    });
+
+    const stored = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(released).toBe(true);
+    expect(stored).toEqual(Option.none());
+  });
+
+  it('should cancel the underlying reader when the stream is cut short', async () => {
+    let cancelled = false;
+    const namespace = {
+      get: async () =>
+        new ReadableStream<Uint8Array>({
+          pull: (controller) => controller.enqueue(encoder.encode('chunk')),
+          cancel: () => {
+            cancelled = true;
+          },
+        }),
+    } as unknown as KVNamespace;
+
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const stream = yield* kv.getByteStream('infinite');
+      return yield* Stream.runCollect(Stream.take(Option.getOrThrow(stream), 2));
+    });
+
+    const chunks = await Effect.runPromise(program.pipe(Effect.provide(KVTest(namespace))));
+
+    expect(Chunk.toReadonlyArray(chunks).map((chunk) => decoder.decode(chunk))).toEqual([
+      'chunk',
+      'chunk',
+    ]);
+    expect(cancelled).toBe(true);
+  });
+});
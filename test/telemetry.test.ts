@@ -0,0 +1,173 @@
+import { Effect, Layer, Metric, Tracer } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory, KVMetrics, layerConfig, layerMemory, type KVConfigOptions } from '../src';
+
+/**
+ * Runs a program with a tracer that records every span it creates
+ */
+const traced = async <A, E>(
+  program: Effect.Effect<A, E, 'effect-kv/KV'>,
+  config?: KVConfigOptions
+) => {
+  const spans: Array<Tracer.Span> = [];
+  const layer =
+    config === undefined ? KVMemory : layerMemory().pipe(Layer.provide(layerConfig(config)));
+  const result = await Effect.runPromise(
+    Effect.flatMap(Effect.tracer, (tracer) =>
+      Effect.withTracer(
+        program,
+        Tracer.make({
+          span: (...args) => {
+            const span = tracer.span(...args);
+            spans.push(span);
+            return span;
+          },
+          context: tracer.context,
+        })
+      )
+    ).pipe(Effect.provide(layer))
+  );
+  return { result, spans };
+};
+
+const attributesOf = (spans: ReadonlyArray<Tracer.Span>, name: string) =>
+  spans.filter((span) => span.name === name).map((span) => Object.fromEntries(span.attributes));
+
+describe('Telemetry', () => {
+  it('should wrap reads and writes in spans with key, type, size and outcome', async () => {
+    const { spans } = await traced(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('user:1', 'Ada');
+        yield* kv.get('user:1', { cacheTtl: 60 });
+        yield* kv.getJSON('missing');
+        yield* kv.delete('user:1');
+        yield* kv.keys();
+      })
+    );
+
+    expect(attributesOf(spans, 'kv.put')).toEqual([
+      {
+        'kv.operation': 'put',
+        'kv.key': 'user:1',
+        'kv.value_type': 'text',
+        'kv.outcome': 'success',
+        'kv.bytes': 3,
+      },
+    ]);
+    expect(attributesOf(spans, 'kv.get')).toEqual([
+      {
+        'kv.operation': 'get',
+        'kv.key': 'user:1',
+        'kv.value_type': 'text',
+        'kv.cache_ttl': 60,
+        'kv.outcome': 'hit',
+        'kv.bytes': 3,
+      },
+      { 'kv.operation': 'get', 'kv.key': 'missing', 'kv.value_type': 'json', 'kv.outcome': 'miss' },
+    ]);
+    expect(attributesOf(spans, 'kv.delete')).toHaveLength(1);
+    expect(attributesOf(spans, 'kv.list')).toEqual([
+      { 'kv.operation': 'list', 'kv.outcome': 'success', 'kv.keys': 0 },
+    ]);
+  });
+
+  it('should record the error tag of failed operations', async () => {
+    const errors = Metric.tagged(
+      Metric.tagged(KVMetrics.errors, 'operation', 'put'),
+      'error_tag',
+      'KVPutError'
+    );
+    const before = await Effect.runPromise(Metric.value(errors));
+
+    const { spans } = await traced(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* Effect.either(kv.put('', 'value'));
+      })
+    );
+
+    const after = await Effect.runPromise(Metric.value(errors));
+    expect(attributesOf(spans, 'kv.put')[0]).toMatchObject({
+      'kv.outcome': 'failure',
+      'kv.error_tag': 'KVPutError',
+    });
+    expect(after.count - before.count).toBe(1);
+  });
+
+  it('should hash keys and prefixes when configured', async () => {
+    const { spans } = await traced(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.scoped('email:').get('ada@example.com');
+      }),
+      { traceKeys: 'hash' }
+    );
+
+    const [attributes] = attributesOf(spans, 'kv.get');
+    expect(attributes?.['kv.key']).toMatch(/^[0-9a-f]{64}$/);
+    expect(attributes?.['kv.prefix']).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(attributes)).not.toContain('ada@example.com');
+  });
+
+  it('should record keyed digests of keys when configured with an HMAC secret', async () => {
+    const trace = (secret: string) =>
+      traced(
+        Effect.flatMap(KV, (kv) => kv.get('ada@example.com')),
+        { traceKeys: { hmac: new TextEncoder().encode(secret) } }
+      );
+    const first = await trace('first secret');
+    const again = await trace('first secret');
+    const other = await trace('second secret');
+    const hashed = await traced(
+      Effect.flatMap(KV, (kv) => kv.get('ada@example.com')),
+      { traceKeys: 'hash' }
+    );
+
+    const keyOf = (spans: ReadonlyArray<Tracer.Span>) =>
+      attributesOf(spans, 'kv.get')[0]?.['kv.key'];
+    expect(keyOf(first.spans)).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyOf(again.spans)).toBe(keyOf(first.spans));
+    expect(keyOf(other.spans)).not.toBe(keyOf(first.spans));
+    expect(keyOf(hashed.spans)).not.toBe(keyOf(first.spans));
+  });
+
+  it('should drop or map keys when configured', async () => {
+    const dropped = await traced(
+      Effect.flatMap(KV, (kv) => kv.get('secret')),
+      { traceKeys: 'drop' }
+    );
+    const mapped = await traced(
+      Effect.flatMap(KV, (kv) => kv.get('user:ada@example.com')),
+      { traceKeys: (key) => key.split(':')[0] }
+    );
+
+    expect(attributesOf(dropped.spans, 'kv.get')[0]).not.toHaveProperty('kv.key');
+    expect(attributesOf(mapped.spans, 'kv.get')[0]).toMatchObject({ 'kv.key': 'user' });
+  });
+
+  it('should count reads, bytes and latency', async () => {
+    const hits = Metric.tagged(Metric.tagged(KVMetrics.reads, 'operation', 'get'), 'result', 'hit');
+    const written = Metric.tagged(KVMetrics.bytesWritten, 'operation', 'put');
+    const duration = Metric.tagged(KVMetrics.duration, 'operation', 'get');
+    const snapshot = Effect.all([
+      Metric.value(hits),
+      Metric.value(written),
+      Metric.value(duration),
+    ]);
+    const [hitsBefore, writtenBefore, durationBefore] = await Effect.runPromise(snapshot);
+
+    await traced(
+      Effect.gen(function* () {
+        const kv = yield* KV;
+        yield* kv.put('a', 'hello');
+        yield* kv.getMany(['a', 'b']);
+      })
+    );
+
+    const [hitsAfter, writtenAfter, durationAfter] = await Effect.runPromise(snapshot);
+    expect(hitsAfter.count - hitsBefore.count).toBe(1);
+    expect(writtenAfter.count - writtenBefore.count).toBe(5);
+    expect(durationAfter.count - durationBefore.count).toBe(1);
+  });
+});
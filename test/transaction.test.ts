@@ -0,0 +1,219 @@
+import { Effect, Option, TestClock, TestContext } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory } from '../src';
+
+/**
+ * Journal left behind by a transaction that crashed before applying its second mutation
+ */
+const leftover = {
+  id: 'crashed',
+  createdAt: 0,
+  mutations: [
+    {
+      key: 'list:todo',
+      value: { data: '[]', encoding: 'text' },
+      before: { value: { data: '["a"]', encoding: 'text' }, metadata: null },
+    },
+    { key: 'list:done', value: { data: '["a"]', encoding: 'text' }, before: null },
+  ],
+};
+
+const crashed = Effect.gen(function* () {
+  const kv = yield* KV;
+  yield* kv.put('list:todo', '[]');
+  yield* kv.putJSON('_tx:000000000000000:crashed', leftover);
+  return kv;
+});
+
+describe('Transactions', () => {
+  it('should apply buffered mutations together and clear the journal', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('list:todo', ['a', 'b']);
+      yield* kv.put('draft', 'x');
+      const seen = yield* kv.transaction((tx) =>
+        Effect.gen(function* () {
+          const todo = yield* tx.getJSON<Array<string>>('list:todo');
+          yield* tx.putJSON('list:todo', ['b']);
+          yield* tx.putJSON('list:done', ['a']);
+          yield* tx.delete('draft');
+          const ownWrite = yield* tx.get('list:todo');
+          const ownDelete = yield* tx.get('draft');
+          const outside = yield* kv.get('list:done');
+          return { todo, ownWrite, ownDelete, outside };
+        })
+      );
+      const todo = yield* kv.getJSON<Array<string>>('list:todo');
+      const done = yield* kv.getJSON<Array<string>>('list:done');
+      const draft = yield* kv.get('draft');
+      const journals = yield* kv.keys('_tx:');
+      return { seen, todo, done, draft, journals };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.seen).toEqual({
+      todo: Option.some(['a', 'b']),
+      ownWrite: Option.some('["b"]'),
+      ownDelete: Option.none(),
+      outside: Option.none(),
+    });
+    expect(result.todo).toEqual(Option.some(['b']));
+    expect(result.done).toEqual(Option.some(['a']));
+    expect(result.draft).toEqual(Option.none());
+    expect(result.journals.length).toBe(0);
+  });
+
+  it('should write nothing when the body fails and roll back a failed apply', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('a', 'old', { metadata: { owner: 'x' } });
+      const bodyFailure = yield* Effect.flip(
+        kv.transaction((tx) =>
+          Effect.zipRight(tx.put('a', 'new'), Effect.fail('cancelled' as const))
+        )
+      );
+      const afterBody = yield* kv.get('a');
+      const applyFailure = yield* Effect.flip(
+        kv.transaction((tx) =>
+          Effect.gen(function* () {
+            yield* tx.put('a', 'new');
+            yield* tx.put('b', 'new', { metadata: { note: 'x'.repeat(2000) } });
+          })
+        )
+      );
+      const restored = yield* kv.getWithMetadata('a');
+      const journals = yield* kv.keys('_tx:');
+      return { bodyFailure, afterBody, applyFailure, restored, journals };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.bodyFailure).toBe('cancelled');
+    expect(result.afterBody).toEqual(Option.some('old'));
+    expect(result.applyFailure).toMatchObject({ _tag: 'KVValueTooLargeError', key: 'b' });
+    expect(Option.getOrThrow(result.restored)).toMatchObject({
+      value: 'old',
+      metadata: { owner: 'x' },
+    });
+    expect(result.journals.length).toBe(0);
+  });
+
+  it('should restore the expiration of rolled back values', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('a', 'old', { expirationTtl: 3600 });
+      yield* kv.put('b', 'old', { expirationTtl: 90 });
+      yield* TestClock.adjust('1 minute');
+      yield* Effect.flip(
+        kv.transaction((tx) =>
+          Effect.gen(function* () {
+            yield* tx.put('a', 'new');
+            yield* tx.put('b', 'new');
+            yield* tx.put('c', 'new', { metadata: { note: 'x'.repeat(2000) } });
+          })
+        )
+      );
+      return yield* kv.list();
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+
+    // Expirations closer than KV accepts are extended to the 60 second minimum
+    expect(result.keys.map(({ name, expiration }) => [name, expiration])).toEqual([
+      ['a', 3600],
+      ['b', 120],
+    ]);
+  });
+
+  it('should reject transactions whose journal is over the size limit', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      const error = yield* Effect.flip(
+        kv.transaction((tx) => tx.put('big', new ArrayBuffer(19 * 1024 * 1024)))
+      );
+      return { error, keys: yield* kv.keys() };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.error).toMatchObject({ _tag: 'KVValueTooLargeError', part: 'journal' });
+    expect(result.error.message).toContain('split the transaction');
+    expect(result.keys.length).toBe(0);
+  });
+
+  it('should replay leftover journals', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* crashed;
+      const recovered = yield* kv.recoverTransactions();
+      const todo = yield* kv.get('list:todo');
+      const done = yield* kv.get('list:done');
+      const journals = yield* kv.keys('_tx:');
+      return { recovered, todo, done, journals };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.recovered).toEqual({ replayed: 1, rolledBack: 0 });
+    expect(result.todo).toEqual(Option.some('[]'));
+    expect(result.done).toEqual(Option.some('["a"]'));
+    expect(result.journals.length).toBe(0);
+  });
+
+  it('should replay absolute expirations that have passed or come close since the crash', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.put('session:a', 'old', { expirationTtl: 3600 });
+      yield* kv.putJSON('_tx:000000000000000:crashed', {
+        id: 'crashed',
+        createdAt: 0,
+        mutations: [
+          {
+            key: 'session:a',
+            value: { data: 'new', encoding: 'text' },
+            options: { expiration: 300 },
+            before: { value: { data: 'old', encoding: 'text' }, metadata: null, expiration: 3600 },
+          },
+          {
+            key: 'session:b',
+            value: { data: 'new', encoding: 'text' },
+            options: { expiration: 620 },
+            before: null,
+          },
+        ],
+      });
+      yield* TestClock.adjust('10 minutes');
+      const recovered = yield* kv.recoverTransactions();
+      return { recovered, listed: yield* kv.list() };
+    });
+
+    const result = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+
+    expect(result.recovered).toEqual({ replayed: 1, rolledBack: 0 });
+    expect(result.listed.keys.map(({ name, expiration }) => [name, expiration])).toEqual([
+      ['session:b', 660],
+    ]);
+  });
+
+  it('should roll back leftover journals and skip recent ones', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* crashed;
+      const recent = yield* kv.recoverTransactions({ mode: 'rollback', olderThan: '10000 weeks' });
+      const recovered = yield* kv.recoverTransactions({ mode: 'rollback' });
+      const todo = yield* kv.get('list:todo');
+      const done = yield* kv.get('list:done');
+      return { recent, recovered, todo, done };
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result.recent).toEqual({ replayed: 0, rolledBack: 0 });
+    expect(result.recovered).toEqual({ replayed: 0, rolledBack: 1 });
+    expect(result.todo).toEqual(Option.some('["a"]'));
+    expect(result.done).toEqual(Option.none());
+  });
+});
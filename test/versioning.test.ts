@@ -0,0 +1,168 @@
+import { Effect, Option, Schedule, Schema, TestContext } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { KV, KVMemory, makeVersionedKV, versionedSchema } from '../src';
+
+const UserV1 = Schema.Struct({ id: Schema.Number, name: Schema.String });
+const UserV2 = Schema.Struct({
+  id: Schema.Number,
+  firstName: Schema.String,
+  lastName: Schema.String,
+});
+const UserV3 = Schema.Struct({
+  id: Schema.Number,
+  firstName: Schema.String,
+  lastName: Schema.String,
+  email: Schema.String,
+});
+
+const UserVersions = versionedSchema(UserV1)
+  .migrate(UserV2, ({ id, name }) => {
+    const [firstName = '', lastName = ''] = name.split(' ');
+    return { id, firstName, lastName };
+  })
+  .migrate(UserV3, (user) => Effect.succeed({ ...user, email: '' }));
+
+describe('Versioned typed stores', () => {
+  it('should store values with the current version', async () => {
+    const program = Effect.gen(function* () {
+      const userKV = yield* makeVersionedKV(UserVersions);
+      yield* userKV.put('user:1', { id: 1, firstName: 'Ada', lastName: 'L', email: 'a@l.dev' });
+      const kv = yield* KV;
+      return {
+        user: yield* userKV.get('user:1'),
+        raw: yield* kv.getJSONWithMetadata('user:1'),
+      };
+    });
+
+    const { user, raw } = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(user).toEqual(Option.some({ id: 1, firstName: 'Ada', lastName: 'L', email: 'a@l.dev' }));
+    expect(Option.getOrThrow(raw).metadata).toMatchObject({ _version: 3 });
+  });
+
+  it('should modify values without conflicting with the version metadata', async () => {
+    const program = Effect.gen(function* () {
+      const userKV = yield* makeVersionedKV(UserVersions);
+      yield* userKV.put('user:1', { id: 1, firstName: 'Ada', lastName: 'L', email: '' });
+      const modified = yield* userKV.modify(
+        'user:1',
+        Option.match({
+          onNone: () => ({ id: 1, firstName: '', lastName: '', email: '' }),
+          onSome: (user) => ({ ...user, email: 'ada@example.com' }),
+        }),
+        { retry: Schedule.stop }
+      );
+      const kv = yield* KV;
+      return { modified, raw: yield* kv.getJSONWithMetadata('user:1') };
+    });
+
+    const { modified, raw } = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(modified.email).toBe('ada@example.com');
+    expect(Option.getOrThrow(raw).metadata).toMatchObject({
+      _version: 3,
+      _etag: expect.any(String),
+    });
+  });
+
+  it('should migrate values written by makeTypedKV with an earlier schema', async () => {
+    const program = Effect.gen(function* () {
+      const v1KV = yield* KV(UserV1);
+      yield* v1KV.put('user:1', { id: 1, name: 'Ada Lovelace' });
+      const userKV = yield* makeVersionedKV(UserVersions);
+      return yield* userKV.getOrFail('user:1');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual({ id: 1, firstName: 'Ada', lastName: 'Lovelace', email: '' });
+  });
+
+  it('should write migrated values back when enabled', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON(
+        'user:1',
+        { id: 1, name: 'Ada Lovelace' },
+        { metadata: { _version: 1, _etag: 'e1', team: 'math' }, expirationTtl: 3600 }
+      );
+      const userKV = yield* makeVersionedKV(UserVersions, { writeBack: true });
+      yield* userKV.get('user:1');
+      const stored = yield* kv.getJSONWithMetadata('user:1');
+      const listed = yield* kv.list();
+      return { stored, listed };
+    });
+
+    const { stored, listed } = await Effect.runPromise(
+      program.pipe(Effect.provide(KVMemory), Effect.provide(TestContext.TestContext))
+    );
+
+    expect(Option.getOrThrow(stored).value).toEqual({
+      id: 1,
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: '',
+    });
+    expect(Option.getOrThrow(stored).metadata).toEqual({
+      _schema: UserV3.ast.toString(),
+      _version: 3,
+      team: 'math',
+    });
+    expect(listed.keys).toMatchObject([{ name: 'user:1', expiration: 3600 }]);
+  });
+
+  it('should leave stored values untouched without write-back', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('user:1', { id: 1, name: 'Ada Lovelace' }, { metadata: { _version: 1 } });
+      const userKV = yield* makeVersionedKV(UserVersions);
+      yield* userKV.get('user:1');
+      return yield* kv.getJSON('user:1');
+    });
+
+    const result = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(result).toEqual(Option.some({ id: 1, name: 'Ada Lovelace' }));
+  });
+
+  it('should fail with KVVersionError when the version cannot be resolved', async () => {
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('user:future', { id: 1 }, { metadata: { _version: 7 } });
+      yield* kv.putJSON('user:unknown', { id: 1 });
+      const userKV = yield* makeVersionedKV(UserVersions);
+      return {
+        future: yield* Effect.flip(userKV.get('user:future')),
+        unknown: yield* Effect.flip(userKV.get('user:unknown')),
+      };
+    });
+
+    const { future, unknown } = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(future._tag).toBe('KVVersionError');
+    expect(future.message).toBe(
+      'Cannot resolve schema version for key "user:future": found version 7, known versions are 1 to 3'
+    );
+    expect(unknown._tag).toBe('KVVersionError');
+  });
+
+  it('should fail with KVDecodeError when a migration returns an invalid value', async () => {
+    const Broken = versionedSchema(UserV1).migrate(
+      UserV2,
+      ({ id, name }) => ({ id, firstName: name }) as unknown as typeof UserV2.Type
+    );
+    const program = Effect.gen(function* () {
+      const kv = yield* KV;
+      yield* kv.putJSON('user:1', { id: 1, name: 'Ada' }, { metadata: { _version: 1 } });
+      const userKV = yield* makeVersionedKV(Broken);
+      return yield* Effect.flip(userKV.get('user:1'));
+    });
+
+    const error = await Effect.runPromise(program.pipe(Effect.provide(KVMemory)));
+
+    expect(error).toMatchObject({ _tag: 'KVDecodeError', key: 'user:1' });
+    if (error._tag === 'KVDecodeError') {
+      expect(error.value).toEqual({ id: 1, firstName: 'Ada' });
+    }
+  });
+});